@@ -1,5 +1,5 @@
 import { useEffect, useRef, useState } from "react";
-import { AudioSettings, AudioSegment, Segment } from "./types";
+import { AudioSettings, AudioSegment, Sample, Segment } from "./types";
 
 interface AudioEngineProps {
   segments: Segment[];
@@ -8,8 +8,18 @@ interface AudioEngineProps {
   settings: AudioSettings;
   onSettingsChange: (settings: AudioSettings) => void;
   onSamplesChange?: (samples: { name: string; url: string; file?: File }[]) => void;
+  // Custom samples from a loaded project, replacing any uploaded ones
+  importedSamples?: Sample[];
 }
 
+// Samples shipped with the app, listed before any uploaded or imported ones
+const BUILT_IN_SAMPLES = [
+  { name: 'Kick', url: '/samples/kick.wav' },
+  { name: 'Snare', url: '/samples/snare.wav' },
+  { name: 'Hi-Hat', url: '/samples/hihat.wav' },
+  { name: 'Crash', url: '/samples/crash.wav' },
+];
+
 export const AudioEngine = ({
   segments,
   currentSegmentIndex,
@@ -17,6 +27,7 @@ export const AudioEngine = ({
   settings,
   onSettingsChange,
   onSamplesChange,
+  importedSamples,
 }: AudioEngineProps) => {
   const audioContextRef = useRef<AudioContext | null>(null);
   const currentSourceRef = useRef<AudioBufferSourceNode | OscillatorNode | null>(null);
@@ -24,12 +35,9 @@ export const AudioEngine = ({
   const noiseBufferRef = useRef<{ [key: string]: AudioBuffer }>({});
   const sampleBuffersRef = useRef<{ [key: string]: AudioBuffer }>({});
   
-  const [availableSamples, setAvailableSamples] = useState([
-    { name: 'Kick', url: '/samples/kick.wav' },
-    { name: 'Snare', url: '/samples/snare.wav' },
-    { name: 'Hi-Hat', url: '/samples/hihat.wav' },
-    { name: 'Crash', url: '/samples/crash.wav' },
-  ]);
+  const [availableSamples, setAvailableSamples] = useState<
+    { name: string; url: string; file?: File }[]
+  >(BUILT_IN_SAMPLES);
   
   // Check if any segments have audio to optimize performance
   const hasAudioSegments = segments.some(segment => segment.audio);
@@ -41,6 +49,11 @@ export const AudioEngine = ({
     }
   }, [availableSamples, onSamplesChange]);
 
+  useEffect(() => {
+    if (!importedSamples) return;
+    setAvailableSamples([...BUILT_IN_SAMPLES, ...importedSamples]);
+  }, [importedSamples]);
+
   // Load audio samples from directory
   const loadSamplesFromDirectory = async (files: FileList) => {
     console.log('🎵 Loading samples from directory...');
@@ -420,14 +433,12 @@ export const AudioEngine = ({
             🎵 Upload Audio Files
           </button>
           
-          {availableSamples.length > 4 && (
+          {availableSamples.length > BUILT_IN_SAMPLES.length && (
             <button
                              onClick={() => {
-                 // Keep only the first 4 default samples
-                 const defaultSamples = availableSamples.slice(0, 4);
-                 setAvailableSamples(defaultSamples);
+                 setAvailableSamples(BUILT_IN_SAMPLES);
                  if (onSamplesChange) {
-                   onSamplesChange(defaultSamples);
+                   onSamplesChange(BUILT_IN_SAMPLES);
                  }
                  console.log('🎵 Cleared custom samples, kept defaults');
                }}
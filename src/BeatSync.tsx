@@ -0,0 +1,153 @@
+import { useState } from "react";
+
+import {
+  beatFrameRate,
+  BeatGrid,
+  beatSegments,
+  BeatSyncOptions,
+  detectBeats,
+} from "./beats";
+import { NumberInput } from "./NumberInput";
+import { createRandom, randomSeed } from "./random";
+import { OutputFrameRate, Segment, Vid } from "./types";
+
+// Generates a timeline cut to the beats of an imported track, which then
+// becomes the soundtrack of the export
+export const BeatSync = ({
+  setSegments,
+  vids,
+  frameRate,
+  soundtrack,
+  onSoundtrack,
+}: {
+  setSegments: (segments: Segment[], label?: string) => unknown;
+  vids: Vid[];
+  frameRate: OutputFrameRate;
+  soundtrack: File | null;
+  onSoundtrack: (soundtrack: File | null) => unknown;
+}) => {
+  const [track, setTrack] = useState<File | null>(null);
+  const [grid, setGrid] = useState<BeatGrid | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [options, setOptions] = useState<BeatSyncOptions>({
+    unit: "beat",
+    stutterChance: 0.3,
+    dropKeyframes: true,
+  });
+  const [seed, setSeed] = useState(randomSeed);
+  const mixedRates = beatFrameRate(vids, frameRate) === null;
+
+  const analyze = async (file: File) => {
+    setTrack(file);
+    setGrid(null);
+    setAnalyzing(true);
+    try {
+      const detected = await detectBeats(file);
+      console.log(
+        `🥁 ${file.name}: ${detected.bpm.toFixed(1)} BPM, first beat at ${detected.offset.toFixed(2)}s`
+      );
+      setGrid(detected);
+    } catch (error) {
+      console.error("❌ Beat detection failed:", error);
+      alert(`Beat detection failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const generate = () => {
+    const segments = beatSegments(vids, grid!, options, frameRate, createRandom(seed));
+    setSegments(segments, `Beat sync ${track!.name} (seed ${seed})`);
+    onSoundtrack(track);
+  };
+
+  return (
+    <div className="presets-section beat-sync">
+      <h3>Beat Sync</h3>
+      <div className="beat-sync-controls">
+        <label>
+          <span>🎵 Track:</span>
+          <input
+            type="file"
+            accept="audio/*"
+            disabled={analyzing}
+            onChange={(evt) => {
+              const file = evt.target.files?.[0];
+              evt.target.value = "";
+              if (file) analyze(file);
+            }}
+          />
+        </label>
+        {analyzing && <span>⏳ Detecting beats...</span>}
+        {soundtrack && (
+          <span className="beat-sync-soundtrack">
+            Soundtrack: {soundtrack.name}
+            <button onClick={() => onSoundtrack(null)} title="Export without it">
+              ✕
+            </button>
+          </span>
+        )}
+      </div>
+      {grid && track && (
+        <div className="beat-sync-controls">
+          <label title="Detected tempo, halve or double it if it's off">
+            <span>BPM</span>
+            <NumberInput
+              value={Math.round(grid.bpm)}
+              onChange={(bpm) => bpm > 0 && setGrid({ ...grid, bpm })}
+              min={1}
+            />
+          </label>
+          <span>first beat at {grid.offset.toFixed(2)}s</span>
+          <select
+            value={options.unit}
+            onChange={(e) =>
+              setOptions({ ...options, unit: e.target.value as BeatSyncOptions["unit"] })
+            }
+          >
+            <option value="beat">Cut every beat</option>
+            <option value="bar">Cut every bar</option>
+          </select>
+          <label>
+            <span>Stutters</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={options.stutterChance}
+              onChange={(e) =>
+                setOptions({ ...options, stutterChance: parseFloat(e.target.value) })
+              }
+            />
+            <span>{Math.round(options.stutterChance * 100)}%</span>
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={options.dropKeyframes}
+              onChange={(e) =>
+                setOptions({ ...options, dropKeyframes: e.target.checked })
+              }
+            />
+            <span>Drop key chunks</span>
+          </label>
+          <label>
+            <span>🌱 Seed</span>
+            <NumberInput value={seed} onChange={setSeed} min={0} />
+          </label>
+          <button onClick={() => setSeed(randomSeed())}>🎲</button>
+          <button onClick={generate} disabled={mixedRates}>
+            Generate ({grid.duration.toFixed(1)}s)
+          </button>
+          {mixedRates && (
+            <em>
+              Videos have different frame rates, pick an output frame rate to
+              stay on the beat.
+            </em>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
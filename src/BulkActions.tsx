@@ -0,0 +1,289 @@
+import { useState } from "react";
+
+import { NumberInput } from "./NumberInput";
+import { createRandom, Random, randomSeed } from "./random";
+import { AudioSegment, Segment, Vid } from "./types";
+
+// Puts `replacements` at the selected positions, in order
+const replaceAt = (
+  segments: Segment[],
+  selection: number[],
+  replacements: Segment[]
+) => {
+  const next = [...segments];
+  selection.forEach((i, k) => (next[i] = replacements[k]));
+  return next;
+};
+
+const shuffled = <T,>(items: T[], random: Random) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Playing a then b is the same as playing a longer a when both play the same
+// vid forward, back to back, once each, with the same audio, keyframe policy
+// and lock. A key forced at the start of b would be lost
+const canMerge = (a: Segment, b: Segment) =>
+  a.name === b.name &&
+  a.hold === undefined &&
+  b.hold === undefined &&
+  a.to === b.from &&
+  a.repeat === 1 &&
+  b.repeat === 1 &&
+  (a.playback ?? { mode: "forward" }).mode === "forward" &&
+  (b.playback ?? { mode: "forward" }).mode === "forward" &&
+  JSON.stringify(a.audio) === JSON.stringify(b.audio) &&
+  a.keyframes === b.keyframes &&
+  b.keyframes !== "force" &&
+  !!a.locked === !!b.locked;
+
+// Actions applied to every selected segment at once. Results that keep their
+// positions stay selected
+export const BulkActions = ({
+  segments,
+  setSegments,
+  selection,
+  setSelection,
+  vids,
+  availableSamples,
+}: {
+  segments: Segment[];
+  setSegments: (segments: Segment[], label?: string) => unknown;
+  selection: number[]; // sorted indices
+  setSelection: (selection: number[]) => unknown;
+  vids: Vid[];
+  availableSamples: { name: string; url: string }[];
+}) => {
+  const [repeat, setRepeat] = useState(2);
+  const [scale, setScale] = useState(2);
+  const [bounds, setBounds] = useState({
+    minLength: 2,
+    maxLength: 30,
+    maxRepeat: 8,
+  });
+  const [splitAt, setSplitAt] = useState(0);
+
+  const selected = selection.map((i) => segments[i]);
+  const count = selection.length;
+  const label = (action: string) =>
+    `${action} ${count} segment${count !== 1 ? "s" : ""}`;
+  const update = (patch: (segment: Segment) => Segment, action: string) =>
+    setSegments(replaceAt(segments, selection, selected.map(patch)), label(action));
+
+  const duplicate = () => {
+    // Copies go right after the last selected segment, and get selected
+    const end = selection[count - 1] + 1;
+    setSegments(
+      [...segments.slice(0, end), ...selected, ...segments.slice(end)],
+      label("Duplicate")
+    );
+    setSelection(selection.map((_, k) => end + k));
+  };
+
+  const remove = () => {
+    setSegments(
+      segments.filter((_, i) => !selection.includes(i)),
+      label("Delete")
+    );
+    setSelection([]);
+  };
+
+  const assignAudio = (value: string) => {
+    const first = selected.find((s) => s.audio)?.audio;
+    const sample = availableSamples.find((sample) => sample.url === value);
+    const audio: AudioSegment | undefined =
+      value === "first"
+        ? first
+        : value === "noise"
+          ? { type: "noise", noiseType: "white", volume: 0.5 }
+          : value === "sine"
+            ? { type: "sine", frequency: 440, volume: 0.5 }
+            : sample
+              ? { type: "sample", sampleUrl: sample.url, volume: 0.5 }
+              : undefined;
+    update((s) => ({ ...s, audio }), "Set audio of");
+  };
+
+  // Ranges move to random places of their vid with a random length and
+  // repeat within the bounds. Holds keep their length
+  const randomize = () => {
+    const random = createRandom(randomSeed());
+    const { minLength, maxLength, maxRepeat } = bounds;
+    update((s) => {
+      const repeat = 1 + Math.floor(random() * Math.max(1, maxRepeat));
+      const vid = vids.find((vid) => vid.name === s.name);
+      if (s.hold !== undefined || !vid) return { ...s, repeat };
+      const longest = Math.min(maxLength, vid.chunks.length);
+      // Typed bounds aren't checked, so keep at least one frame
+      const shortest = Math.max(1, Math.min(minLength, longest));
+      const length = shortest + Math.floor(random() * (longest - shortest + 1));
+      const from = Math.floor(random() * (vid.chunks.length - length + 1));
+      return { ...s, from, to: from + length, repeat };
+    }, "Randomize");
+  };
+
+  const reorder = (order: Segment[], action: string) =>
+    setSegments(replaceAt(segments, selection, order), label(action));
+
+  // Each selected segment whose range contains the frame is cut in two there.
+  // Both halves keep the repeat, only the first keeps a forced keyframe
+  const split = () => {
+    const next: Segment[] = [];
+    segments.forEach((s, i) => {
+      const inside = s.hold === undefined && splitAt > s.from && splitAt < s.to;
+      if (!selection.includes(i) || !inside) {
+        next.push(s);
+        return;
+      }
+      next.push(
+        { ...s, to: splitAt },
+        {
+          ...s,
+          from: splitAt,
+          keyframes: s.keyframes === "force" ? undefined : s.keyframes,
+        }
+      );
+    });
+    setSegments(next, `Split at frame ${splitAt}`);
+    setSelection([]);
+  };
+  const splittable = selected.some(
+    (s) => s.hold === undefined && splitAt > s.from && splitAt < s.to
+  );
+
+  // Runs of selected neighbours that play on from each other become one
+  const merge = () => {
+    const next: Segment[] = [];
+    segments.forEach((s, i) => {
+      const last = next[next.length - 1];
+      if (selection.includes(i) && selection.includes(i - 1) && canMerge(last, s)) {
+        next[next.length - 1] = { ...last, to: s.to };
+      } else {
+        next.push(s);
+      }
+    });
+    setSegments(next, label("Merge"));
+    setSelection([]);
+  };
+  const mergeable = selection.some(
+    (i, k) =>
+      k > 0 && selection[k - 1] === i - 1 && canMerge(segments[i - 1], segments[i])
+  );
+
+  return (
+    <div className="bulk-actions">
+      <div className="bulk-row">
+        <strong>{count} selected</strong>
+        <button onClick={() => setSelection([])}>Clear</button>
+        <button onClick={duplicate}>⧉ Duplicate</button>
+        <button onClick={remove}>✕ Delete</button>
+        <button
+          onClick={() => reorder([...selected].reverse(), "Reverse")}
+          disabled={count < 2}
+        >
+          ⇅ Reverse order
+        </button>
+        <button
+          onClick={() =>
+            reorder(shuffled(selected, createRandom(randomSeed())), "Shuffle")
+          }
+          disabled={count < 2}
+        >
+          🔀 Shuffle
+        </button>
+        <button
+          onClick={merge}
+          disabled={!mergeable}
+          title="Join neighbours playing on from each other"
+        >
+          Merge
+        </button>
+      </div>
+      <div className="bulk-row">
+        <label>
+          Repeat
+          <NumberInput value={repeat} onChange={setRepeat} min={1} />
+        </label>
+        <button onClick={() => update((s) => ({ ...s, repeat }), "Set repeat of")}>
+          Set
+        </button>
+        <label>
+          ×
+          <input
+            type="number"
+            value={scale}
+            min={0.1}
+            step={0.5}
+            onChange={(e) => setScale(parseFloat(e.target.value) || 1)}
+          />
+        </label>
+        <button
+          onClick={() =>
+            update(
+              (s) => ({ ...s, repeat: Math.max(1, Math.round(s.repeat * scale)) }),
+              "Scale repeat of"
+            )
+          }
+        >
+          Scale
+        </button>
+        <select value="" onChange={(e) => assignAudio(e.target.value)}>
+          <option value="" disabled>
+            Set audio...
+          </option>
+          {selected.some((s) => s.audio) && (
+            <option value="first">Same as first with audio</option>
+          )}
+          <option value="none">No Audio</option>
+          <option value="noise">Noise</option>
+          <option value="sine">Sine Wave</option>
+          {availableSamples.map((sample) => (
+            <option key={sample.url} value={sample.url}>
+              {sample.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="bulk-row">
+        <label>
+          Length
+          <NumberInput
+            value={bounds.minLength}
+            onChange={(minLength) => setBounds({ ...bounds, minLength })}
+            min={1}
+          />
+          –
+          <NumberInput
+            value={bounds.maxLength}
+            onChange={(maxLength) => setBounds({ ...bounds, maxLength })}
+            min={bounds.minLength}
+          />
+        </label>
+        <label>
+          Repeat up to
+          <NumberInput
+            value={bounds.maxRepeat}
+            onChange={(maxRepeat) => setBounds({ ...bounds, maxRepeat })}
+            min={1}
+          />
+        </label>
+        <button onClick={randomize}>🎲 Randomize</button>
+        <label>
+          Frame
+          <NumberInput value={splitAt} onChange={setSplitAt} min={1} />
+        </label>
+        <button
+          onClick={split}
+          disabled={!splittable}
+          title="Cut selected segments at this frame of their video"
+        >
+          ✂ Split
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+
+import {
+  CachedMediaEntry,
+  clearMediaCache,
+  deleteCachedMedia,
+  estimateStorage,
+  listCachedMedia,
+} from "./mediaCache";
+import { Settings } from "./types";
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(0)}KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+export const CacheManager = ({
+  settings,
+  version,
+  onLoad,
+}: {
+  settings: Settings;
+  version: number;
+  onLoad: (key: string) => unknown;
+}) => {
+  const [entries, setEntries] = useState<CachedMediaEntry[]>([]);
+  const [usage, setUsage] = useState<StorageEstimate | null>(null);
+  const [refreshes, setRefreshes] = useState(0);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setEntries(await listCachedMedia());
+        setUsage(await estimateStorage());
+      } catch (error) {
+        console.warn("Media cache unavailable:", error);
+      }
+    })();
+  }, [version, refreshes]);
+
+  const refresh = () => setRefreshes((n) => n + 1);
+  const cachedBytes = entries.reduce((total, entry) => total + entry.size, 0);
+
+  return (
+    <details className="media-cache">
+      <summary>
+        Media cache: {entries.length} file{entries.length !== 1 ? "s" : ""},{" "}
+        {formatBytes(cachedBytes)}
+        {usage?.quota !== undefined &&
+          ` (browser storage ${formatBytes(usage.usage ?? 0)} / ${formatBytes(usage.quota)})`}
+      </summary>
+      {entries.length === 0 ? (
+        <p>Preprocessed files are cached here and survive page reloads</p>
+      ) : (
+        <>
+          <ul className="media-cache-list">
+            {entries.map((entry) => {
+              const matches =
+                entry.settings.width === settings.width &&
+                entry.settings.height === settings.height;
+              return (
+                <li key={entry.key}>
+                  <span>
+                    {entry.name}
+                    <span style={{ color: "#888", fontSize: "0.9em" }}>
+                      {" "}({entry.settings.width}&times;{entry.settings.height},{" "}
+                      {entry.frames} frames, {entry.fps}fps,{" "}
+                      {formatBytes(entry.size)})
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => onLoad(entry.key)}
+                    title={
+                      matches
+                        ? "Add to loaded videos"
+                        : "Cached at a different resolution than the current settings"
+                    }
+                  >
+                    Load{matches ? "" : " ⚠️"}
+                  </button>
+                  <button
+                    onClick={async () => {
+                      await deleteCachedMedia(entry.key);
+                      refresh();
+                    }}
+                  >
+                    Evict
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <button
+            onClick={async () => {
+              await clearMediaCache();
+              refresh();
+            }}
+          >
+            Clear cache
+          </button>
+        </>
+      )}
+    </details>
+  );
+};
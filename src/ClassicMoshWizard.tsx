@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+
+import { Section } from "./components/Section";
+import { uniqueName } from "./lib";
+import { NumberInput } from "./NumberInput";
+import { SelectInput } from "./SelectInput";
+import { Segment, Settings, Vid } from "./types";
+import { isActiveJob, PreprocessQueue } from "./usePreprocessQueue";
+
+// Builds the signature mosh in one go: a still image encoded as a clip with a
+// single key chunk, followed by the deltas of a motion source so its motion
+// drags the pixels of the image around
+export const ClassicMoshWizard = ({
+  vids,
+  queue: { jobs, enqueue },
+  preprocessSettings,
+  setSegments,
+}: {
+  vids: Vid[];
+  queue: PreprocessQueue;
+  preprocessSettings: Settings;
+  setSegments: (segments: Segment[], label?: string) => unknown;
+}) => {
+  const [image, setImage] = useState<File | null>(null);
+  const [stillFrames, setStillFrames] = useState(15);
+  const [motionName, setMotionName] = useState("");
+  const [from, setFrom] = useState(1);
+  const [to, setTo] = useState<number | null>(null); // null: end of the motion
+  const [repeat, setRepeat] = useState(1);
+  // Image vid being encoded and the motion segment to play after it
+  const [pending, setPending] = useState<{ name: string; motion: Segment } | null>(
+    null
+  );
+
+  const motions = vids.filter((vid) => !vid.still);
+  const motion = motions.find((vid) => vid.name === motionName) ?? motions[0];
+  const motionTo = motion
+    ? Math.min(to ?? motion.chunks.length, motion.chunks.length)
+    : 0;
+  const motionFrom = Math.min(from, motionTo - 1);
+
+  useEffect(() => {
+    if (!pending) return;
+    const still = vids.find((vid) => vid.name === pending.name);
+    if (still) {
+      setSegments(
+        [
+          { name: still.name, from: 0, to: still.chunks.length, repeat: 1 },
+          pending.motion,
+        ],
+        "Classic mosh"
+      );
+      setPending(null);
+      return;
+    }
+    // Failures and cancellations are reported in the Files section
+    const job = jobs.find((job) => job.name === pending.name);
+    if (job && !isActiveJob(job) && job.status !== "done") setPending(null);
+  }, [pending, vids, jobs, setSegments]);
+
+  const build = () => {
+    if (!image || !motion) return;
+    const taken = [...vids, ...jobs.filter(isActiveJob)].map(({ name }) => name);
+    const name = uniqueName(`still_${image.name.replace(/\s/g, "_")}`, taken);
+    enqueue(
+      [{ file: image, name, still: { frames: stillFrames, fps: motion.fps } }],
+      preprocessSettings
+    );
+    setPending({
+      name,
+      motion: {
+        name: motion.name,
+        from: motionFrom,
+        to: motionTo,
+        repeat,
+        keyframes: "drop",
+      },
+    });
+  };
+
+  return (
+    <Section name="Classic Mosh">
+      {motions.length === 0 ? (
+        <p>Upload a video to use as the motion source</p>
+      ) : (
+        <div className="mosh-wizard">
+          <label>
+            <span>1. Image</span>
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(evt) => setImage(evt.target.files?.[0] ?? null)}
+            />
+          </label>
+          <label>
+            <span>Still frames</span>
+            <NumberInput value={stillFrames} onChange={setStillFrames} min={1} />
+          </label>
+          <label>
+            <span>2. Motion source</span>
+            <SelectInput
+              value={motion.name}
+              onChange={setMotionName}
+              options={motions.map((vid) => vid.name)}
+            />
+          </label>
+          <label>
+            <span>From</span>
+            <NumberInput
+              value={motionFrom}
+              onChange={setFrom}
+              min={0}
+              max={motionTo - 1}
+            />
+          </label>
+          <label>
+            <span>To</span>
+            <NumberInput
+              value={motionTo}
+              onChange={setTo}
+              min={motionFrom + 1}
+              max={motion.chunks.length}
+            />
+          </label>
+          <label>
+            <span>Repeat</span>
+            <NumberInput value={repeat} onChange={setRepeat} min={1} />
+          </label>
+          <div>
+            <button onClick={build} disabled={!image || !!pending}>
+              {pending ? "⏳ Encoding image..." : "3. Build mosh"}
+            </button>
+            <small> Replaces the timeline</small>
+          </div>
+        </div>
+      )}
+    </Section>
+  );
+};
@@ -1,33 +1,102 @@
-import { FFmpeg } from "@ffmpeg/ffmpeg";
 import { Dispatch, SetStateAction, useState } from "react";
 
+import { detectSceneCuts } from "./analysis";
+import { CacheManager } from "./CacheManager";
 import { Section } from "./components/Section";
-import { computeChunks, FPS } from "./lib";
+import { uniqueName, vidDuration } from "./lib";
+import { getCachedMedia } from "./mediaCache";
+import { MotionGraph } from "./MotionGraph";
+import { formatTimecode } from "./timecode";
 import { Settings, Vid } from "./types";
+import { isActiveJob, PreprocessQueue } from "./usePreprocessQueue";
+
+const formatEta = (seconds: number) =>
+  seconds < 60
+    ? `${Math.ceil(seconds)}s`
+    : `${Math.floor(seconds / 60)}m${`${Math.ceil(seconds % 60)}`.padStart(2, "0")}s`;
 
 export const FilesEditor = ({
   vids,
   setVids,
-  ffmpeg,
-  progress,
   onConfig,
+  config,
   settings,
   preprocessSettings,
   setPreprocessSettings,
+  queue: { jobs, enqueue, cancel, retry, clearFinished },
+  cacheVersion,
+  onCacheChange,
 }: {
   vids: Vid[];
   setVids: React.Dispatch<React.SetStateAction<Vid[]>>;
-  ffmpeg: FFmpeg;
-  progress: number;
   onConfig: Dispatch<SetStateAction<VideoDecoderConfig | null>>;
+  config: VideoDecoderConfig | null;
   settings: Settings;
   preprocessSettings: Settings;
   setPreprocessSettings: Dispatch<SetStateAction<Settings>>;
+  queue: PreprocessQueue;
+  cacheVersion: number;
+  onCacheChange: () => unknown;
 }) => {
-  const [loading, setLoading] = useState(false);
-  const [currentFileIndex, setCurrentFileIndex] = useState(0);
-  const [totalFiles, setTotalFiles] = useState(0);
-  const [currentFileName, setCurrentFileName] = useState("");
+  const activeJobs = jobs.filter(isActiveJob);
+  // Scene cut detection progress by vid name
+  const [analyzing, setAnalyzing] = useState<Record<string, number>>({});
+
+  const findCuts = async (vid: Vid) => {
+    const setProgress = (progress?: number) =>
+      setAnalyzing((prev) => {
+        const next = { ...prev };
+        if (progress === undefined) delete next[vid.name];
+        else next[vid.name] = progress;
+        return next;
+      });
+    setProgress(0);
+    try {
+      const cuts = await detectSceneCuts(vid, config!, setProgress);
+      console.log(`✂️ Found ${cuts.length} scene cuts in ${vid.name}`);
+      setVids((prev) =>
+        prev.map((v) => (v.chunks === vid.chunks ? { ...v, cuts } : v))
+      );
+    } catch (error) {
+      console.error(`❌ Scene cut detection failed for ${vid.name}:`, error);
+      alert(`Scene cut detection failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setProgress(undefined);
+    }
+  };
+
+  const enqueueFiles = (files: File[], nameOf: (file: File) => string) => {
+    const taken = [...vids, ...activeJobs].map(({ name }) => name);
+    const entries = files.map((file) => {
+      const name = uniqueName(nameOf(file).replace(/\s/g, "_"), taken);
+      taken.push(name);
+      return { file, name };
+    });
+    console.log(`🎬 Queued ${entries.length} files for preprocessing`);
+    enqueue(entries, settings);
+  };
+
+  const loadFromCache = async (key: string) => {
+    const media = await getCachedMedia(key);
+    if (!media) {
+      alert("This file is no longer in the cache");
+      onCacheChange();
+      return;
+    }
+    onConfig(media.config);
+    setVids((prev) => [
+      ...prev,
+      {
+        file: media.file,
+        name: uniqueName(media.entry.name, prev.map(({ name }) => name)),
+        src: URL.createObjectURL(media.file),
+        chunks: media.chunks,
+        fps: media.fps,
+        cacheKey: key,
+      },
+    ]);
+    setPreprocessSettings(media.entry.settings);
+  };
 
   return (
     <Section name="Files">
@@ -44,23 +113,38 @@ export const FilesEditor = ({
               Clear All
             </button>
           </div>
-          <ul style={{ maxHeight: '200px', overflowY: 'auto', margin: '0', padding: '0' }}>
+          <ul style={{ maxHeight: '320px', overflowY: 'auto', margin: '0', padding: '0' }}>
             {vids.map((vid, index) => (
               <li key={vid.name} style={{ listStyle: 'none', padding: '4px 0', borderBottom: '1px solid #333' }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                   <span>
                     <strong>{index + 1}.</strong> {vid.name} 
                     <span style={{ color: '#888', fontSize: '0.9em' }}>
-                      {" "}({(vid.chunks.length / FPS).toFixed(2)}s, {vid.chunks.length} frames)
+                      {" "}({formatTimecode(vidDuration(vid), vid.fps)}, {vidDuration(vid).toFixed(2)}s, {vid.chunks.length} frames, {vid.fps}fps)
                     </span>
                   </span>
-                  <button 
-                    onClick={() => setVids(vids.filter(v => v.name !== vid.name))}
-                    style={{ padding: '2px 6px', fontSize: '11px', marginLeft: '8px' }}
-                  >
-                    Remove
-                  </button>
+                  <span>
+                    {analyzing[vid.name] !== undefined ? (
+                      <span>✂️ {Math.round(analyzing[vid.name] * 100)}%</span>
+                    ) : (
+                      <button
+                        onClick={() => findCuts(vid)}
+                        disabled={!config}
+                        title="Decode the whole video to find scene cuts"
+                        style={{ padding: '2px 6px', fontSize: '11px' }}
+                      >
+                        {vid.cuts ? `✂️ ${vid.cuts.length} cuts` : "✂️ Find cuts"}
+                      </button>
+                    )}
+                    <button 
+                      onClick={() => setVids(vids.filter(v => v.name !== vid.name))}
+                      style={{ padding: '2px 6px', fontSize: '11px', marginLeft: '8px' }}
+                    >
+                      Remove
+                    </button>
+                  </span>
                 </div>
+                <MotionGraph vid={vid} />
               </li>
             ))}
           </ul>
@@ -72,31 +156,11 @@ export const FilesEditor = ({
           <input
             type="file"
             accept="video/*,image/*"
-            onChange={async (evt) => {
-              setLoading(true);
-              const file = evt.target.files![0];
-              const src = URL.createObjectURL(file);
-              const withoutSpaces = file.name.replace(/\s/g, "_");
-              let name = withoutSpaces;
-              let i = 0;
-              while (vids.map((vid) => vid.name).includes(name)) {
-                name = `${withoutSpaces}_${i}`;
-                i++;
-              }
-              const chunks = await computeChunks(
-                ffmpeg,
-                file,
-                name,
-                settings.width,
-                settings.height,
-                onConfig
-              );
-              setVids([...vids, { file, name, chunks, src }]);
+            onChange={(evt) => {
+              if (!evt.target.files || evt.target.files.length === 0) return;
+              enqueueFiles([evt.target.files[0]], (file) => file.name);
               evt.target.value = "";
-              setLoading(false);
-              setPreprocessSettings(settings);
             }}
-            disabled={loading}
           />
         </p>
         
@@ -106,60 +170,11 @@ export const FilesEditor = ({
             type="file"
             accept="video/*,image/*"
             multiple
-            onChange={async (evt) => {
+            onChange={(evt) => {
               if (!evt.target.files || evt.target.files.length === 0) return;
-              
-              setLoading(true);
-              const files = Array.from(evt.target.files);
-              setTotalFiles(files.length);
-              setCurrentFileIndex(0);
-              const newVids: Vid[] = [];
-              
-              console.log(`🎬 Processing ${files.length} files...`);
-              
-              for (let fileIndex = 0; fileIndex < files.length; fileIndex++) {
-                const file = files[fileIndex];
-                setCurrentFileIndex(fileIndex + 1);
-                setCurrentFileName(file.name);
-                console.log(`🎬 Processing file ${fileIndex + 1}/${files.length}: ${file.name}`);
-                
-                const src = URL.createObjectURL(file);
-                const withoutSpaces = file.name.replace(/\s/g, "_");
-                let name = withoutSpaces;
-                let i = 0;
-                const existingNames = [...vids, ...newVids].map((vid) => vid.name);
-                while (existingNames.includes(name)) {
-                  name = `${withoutSpaces}_${i}`;
-                  i++;
-                }
-                
-                try {
-                  const chunks = await computeChunks(
-                    ffmpeg,
-                    file,
-                    name,
-                    settings.width,
-                    settings.height,
-                    onConfig
-                  );
-                  newVids.push({ file, name, chunks, src });
-                  console.log(`✅ Processed ${name}: ${chunks.length} frames`);
-                } catch (error) {
-                  console.error(`❌ Failed to process ${file.name}:`, error);
-                }
-              }
-              
-              setVids([...vids, ...newVids]);
+              enqueueFiles(Array.from(evt.target.files), (file) => file.name);
               evt.target.value = "";
-              setLoading(false);
-              setCurrentFileIndex(0);
-              setTotalFiles(0);
-              setCurrentFileName("");
-              setPreprocessSettings(settings);
-              
-              console.log(`🎬 Finished processing ${newVids.length}/${files.length} files successfully`);
             }}
-            disabled={loading}
           />
         </p>
         
@@ -169,10 +184,9 @@ export const FilesEditor = ({
             type="file"
             // @ts-ignore - webkitdirectory is not in the types but is supported
             webkitdirectory=""
-            onChange={async (evt) => {
+            onChange={(evt) => {
               if (!evt.target.files || evt.target.files.length === 0) return;
               
-              setLoading(true);
               const files = Array.from(evt.target.files);
               
               // Filter for video files only
@@ -186,58 +200,14 @@ export const FilesEditor = ({
               
               if (videoFiles.length === 0) {
                 alert('No video files found in the selected directory');
-                setLoading(false);
                 return;
               }
               
-              setTotalFiles(videoFiles.length);
-              setCurrentFileIndex(0);
-              const newVids: Vid[] = [];
-              
-              for (let fileIndex = 0; fileIndex < videoFiles.length; fileIndex++) {
-                const file = videoFiles[fileIndex];
-                setCurrentFileIndex(fileIndex + 1);
-                setCurrentFileName(file.webkitRelativePath || file.name);
-                console.log(`🎬 Processing file ${fileIndex + 1}/${videoFiles.length}: ${file.webkitRelativePath || file.name}`);
-                
-                const src = URL.createObjectURL(file);
-                const relativePath = file.webkitRelativePath || file.name;
-                const withoutSpaces = relativePath.replace(/\s/g, "_").replace(/\//g, "_");
-                let name = withoutSpaces;
-                let i = 0;
-                const existingNames = [...vids, ...newVids].map((vid) => vid.name);
-                while (existingNames.includes(name)) {
-                  name = `${withoutSpaces}_${i}`;
-                  i++;
-                }
-                
-                try {
-                  const chunks = await computeChunks(
-                    ffmpeg,
-                    file,
-                    name,
-                    settings.width,
-                    settings.height,
-                    onConfig
-                  );
-                  newVids.push({ file, name, chunks, src });
-                  console.log(`✅ Processed ${name}: ${chunks.length} frames`);
-                } catch (error) {
-                  console.error(`❌ Failed to process ${relativePath}:`, error);
-                }
-              }
-              
-              setVids([...vids, ...newVids]);
+              enqueueFiles(videoFiles, (file) =>
+                (file.webkitRelativePath || file.name).replace(/\//g, "_")
+              );
               evt.target.value = "";
-              setLoading(false);
-              setCurrentFileIndex(0);
-              setTotalFiles(0);
-              setCurrentFileName("");
-              setPreprocessSettings(settings);
-              
-              console.log(`🎬 Finished processing ${newVids.length}/${videoFiles.length} video files successfully`);
             }}
-            disabled={loading}
           />
         </p>
       </div>
@@ -245,59 +215,66 @@ export const FilesEditor = ({
         !!vids.length && (
           <p>
             <button
-              disabled={loading}
-              onClick={async () => {
-                setLoading(true);
-                setTotalFiles(vids.length);
-                setCurrentFileIndex(0);
-                
-                for (let i = 0; i < vids.length; i++) {
-                  const vid = vids[i];
-                  setCurrentFileIndex(i + 1);
-                  setCurrentFileName(vid.name);
-                  
-                  vid.chunks = await computeChunks(
-                    ffmpeg,
-                    vid.file,
-                    vid.name,
-                    settings.width,
-                    settings.height,
-                    onConfig
-                  );
-                }
-                
-                setVids([...vids]);
-                setPreprocessSettings(settings);
-                setLoading(false);
-                setCurrentFileIndex(0);
-                setTotalFiles(0);
-                setCurrentFileName("");
-              }}
+              disabled={activeJobs.length > 0}
+              onClick={() =>
+                enqueue(
+                  vids.map(({ file, name, still }) => ({ file, name, still })),
+                  settings
+                )
+              }
             >
               Reprocess files
             </button>
           </p>
         )}
-      {loading && (
+      {jobs.length > 0 && (
         <div className="upload-progress">
-          {totalFiles > 1 && (
-            <div className="file-progress">
-              <strong>Processing file {currentFileIndex}/{totalFiles}</strong>
-              {currentFileName && (
-                <div className="current-file-name">
-                  📁 {currentFileName}
-                </div>
-              )}
-            </div>
-          )}
-          <progress value={progress} />
-          {totalFiles > 1 && (
-            <div className="overall-progress">
-              Overall: {currentFileIndex}/{totalFiles} files ({Math.round((currentFileIndex / totalFiles) * 100)}%)
-            </div>
-          )}
+          <div className="file-progress">
+            <strong>
+              Preprocessing: {jobs.filter((job) => job.status === "done").length}/{jobs.length} done
+            </strong>
+            {activeJobs.length === 0 && (
+              <button onClick={clearFinished} style={{ marginLeft: '8px' }}>
+                Clear
+              </button>
+            )}
+          </div>
+          <ul className="job-list">
+            {jobs.map((job) => (
+              <li key={job.id} className={`job job-${job.status}`}>
+                <span className="current-file-name">📁 {job.name}</span>
+                <span className="job-status">
+                  {job.status}
+                  {job.cached && " (cache)"}
+                </span>
+                {job.status === "transcoding" ? (
+                  <>
+                    <progress value={job.progress} />
+                    <span>
+                      {Math.round(job.progress * 100)}%
+                      {job.eta !== undefined && ` · ETA ${formatEta(job.eta)}`}
+                    </span>
+                  </>
+                ) : (
+                  <span className="job-error">{job.error}</span>
+                )}
+                {isActiveJob(job) ? (
+                  <button onClick={() => cancel(job.id)}>Cancel</button>
+                ) : job.status === "failed" || job.status === "cancelled" ? (
+                  <button onClick={() => retry(job.id)}>Retry</button>
+                ) : (
+                  <span />
+                )}
+              </li>
+            ))}
+          </ul>
         </div>
       )}
+      <CacheManager
+        settings={settings}
+        version={cacheVersion}
+        onLoad={loadFromCache}
+      />
     </Section>
   );
 };
@@ -0,0 +1,88 @@
+import { useEffect } from "react";
+
+import { Section } from "./components/Section";
+import { History } from "./useHistory";
+
+// Inputs without an editable value of their own, where undo means the timeline
+const NON_EDITABLE_INPUTS = [
+  "checkbox",
+  "radio",
+  "range",
+  "button",
+  "submit",
+  "reset",
+  "image",
+  "file",
+  "color",
+];
+
+const isEditableField = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLInputElement &&
+    !NON_EDITABLE_INPUTS.includes(target.type)) ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+export const HistoryPanel = <T,>({
+  history: { entries, index, jump, undo, redo },
+}: {
+  history: History<T>;
+}) => {
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except in fields where the
+  // browser's own undo is more useful
+  useEffect(() => {
+    const onKeyDown = (evt: KeyboardEvent) => {
+      if (!(evt.ctrlKey || evt.metaKey) || isEditableField(evt.target)) return;
+      const key = evt.key.toLowerCase();
+      if (key === "z" && !evt.shiftKey) {
+        evt.preventDefault();
+        undo();
+      } else if ((key === "z" && evt.shiftKey) || key === "y") {
+        evt.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+
+  return (
+    <Section name="History">
+      <div className="history-controls">
+        <button onClick={undo} disabled={index === 0} title="Ctrl+Z">
+          ↶ Undo
+        </button>
+        <button
+          onClick={redo}
+          disabled={index === entries.length - 1}
+          title="Ctrl+Shift+Z"
+        >
+          ↷ Redo
+        </button>
+      </div>
+      <ol className="history-list">
+        {entries.map((entry, i) => (
+          <li
+            key={`${i}-${entry.time}`}
+            className={i === index ? "current" : i > index ? "undone" : ""}
+          >
+            <button className="history-entry" onClick={() => jump(i)}>
+              {entry.label}
+              <span className="history-time">
+                {new Date(entry.time).toLocaleTimeString()}
+              </span>
+            </button>
+            {i > 0 && (
+              <button
+                onClick={() => jump(i - 1)}
+                title="Go back to the state before this edit"
+              >
+                ⏪ Before
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </Section>
+  );
+};
@@ -0,0 +1,190 @@
+import { useState } from "react";
+
+import { MoshPreview } from "./MoshPreview";
+import { NumberInput } from "./NumberInput";
+import { SelectInput } from "./SelectInput";
+import { OutputFrameRate, Segment, Vid } from "./types";
+
+const LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const PREVIEW_ROWS = 12;
+
+// "A,A,B" or "AAB" -> [0, 0, 1], null if anything but letters is in there
+const parsePattern = (text: string) => {
+  const letters = text.toUpperCase().replace(/[\s,]+/g, "");
+  if (letters.length === 0 || !/^[A-Z]+$/.test(letters)) return null;
+  return [...letters].map((letter) => LETTERS.indexOf(letter));
+};
+
+// Alternates runs of `step` frames between sources following the pattern,
+// each source carrying on from where it left off, until one runs out.
+// Consecutive runs of the same range merge into a single segment
+const interleaveSegments = (
+  sources: Vid[],
+  pattern: number[],
+  step: number,
+  dropKeyframes: boolean
+) => {
+  // Runs of no frames would never use a source up
+  step = Math.max(1, step);
+  const cursors = sources.map(() => 0);
+  const segments: Segment[] = [];
+  for (let k = 0; ; k = (k + 1) % pattern.length) {
+    const source = pattern[k];
+    const vid = sources[source];
+    const from = cursors[source];
+    const to = from + step;
+    if (to > vid.chunks.length) break;
+    cursors[source] = to;
+    const last = segments[segments.length - 1];
+    if (last?.name === vid.name && last.to === from) {
+      segments[segments.length - 1] = { ...last, to };
+      continue;
+    }
+    segments.push({
+      name: vid.name,
+      from,
+      to,
+      repeat: 1,
+      ...(dropKeyframes && segments.length > 0 && { keyframes: "drop" as const }),
+    });
+  }
+  return segments;
+};
+
+export const InterleaveGenerator = ({
+  segments,
+  setSegments,
+  vids,
+  config,
+  frameRate,
+}: {
+  segments: Segment[];
+  setSegments: (segments: Segment[], label?: string) => unknown;
+  vids: Vid[];
+  config: VideoDecoderConfig | null;
+  frameRate: OutputFrameRate;
+}) => {
+  const [patternText, setPatternText] = useState("A,A,B");
+  const [sourceNames, setSourceNames] = useState<string[]>([]);
+  const [step, setStep] = useState(1);
+  const [dropKeyframes, setDropKeyframes] = useState(true);
+
+  const pattern = parsePattern(patternText);
+  const letterCount = pattern ? Math.max(...pattern) + 1 : 0;
+  // Letters without a pick yet default to the vids in upload order
+  const sources = Array.from(
+    { length: letterCount },
+    (_, i) =>
+      vids.find((vid) => vid.name === sourceNames[i]) ?? vids[i % vids.length]
+  );
+
+  const validStep = step >= 1;
+  const generated = pattern
+    ? interleaveSegments(sources, pattern, step, dropKeyframes)
+    : [];
+  const frames = generated.reduce((sum, s) => sum + s.to - s.from, 0);
+
+  const apply = (append: boolean) => {
+    const label = `Interleave ${pattern!.map((i) => LETTERS[i]).join(",")}`;
+    // Appended, the opening segment no longer starts the timeline, so its key
+    // chunk goes too
+    const [first, ...rest] = generated;
+    const appended =
+      dropKeyframes ? [{ ...first, keyframes: "drop" as const }, ...rest] : generated;
+    setSegments(append ? [...segments, ...appended] : generated, label);
+  };
+
+  return (
+    <div className="presets-section interleave-section">
+      <h3>Interleave Generator</h3>
+      <div className="interleave-controls">
+        <label>
+          Pattern
+          <input
+            type="text"
+            value={patternText}
+            onChange={(e) => setPatternText(e.target.value)}
+            placeholder="A,A,B"
+            title="Letters stand for the sources below, e.g. A,B,B,B"
+          />
+        </label>
+        <label>
+          Frames per step
+          <NumberInput value={step} onChange={setStep} min={1} />
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={dropKeyframes}
+            onChange={(e) => setDropKeyframes(e.target.checked)}
+          />
+          Drop key chunks
+        </label>
+      </div>
+      {pattern ? (
+        <div className="interleave-sources">
+          {sources.map((vid, i) => (
+            <label key={i}>
+              {LETTERS[i]}
+              <SelectInput
+                value={vid.name}
+                onChange={(name) =>
+                  setSourceNames((prev) => {
+                    const next = [...prev];
+                    next[i] = name;
+                    return next;
+                  })
+                }
+                options={vids.map((vid) => vid.name)}
+              />
+            </label>
+          ))}
+        </div>
+      ) : (
+        <p>Use letters for the pattern, like A,A,B or A,B,B,B</p>
+      )}
+      {pattern && (
+        <>
+          <p className="interleave-summary">
+            {validStep
+              ? `${generated.length} segment${generated.length !== 1 ? "s" : ""}, ${frames} frames`
+              : "Frames per step must be at least 1"}
+          </p>
+          <ol className="interleave-rows">
+            {generated.slice(0, PREVIEW_ROWS).map((s, i) => (
+              <li key={i}>
+                {s.name} {s.from}→{s.to}
+              </li>
+            ))}
+            {generated.length > PREVIEW_ROWS && <li>…</li>}
+          </ol>
+          {generated.length > 0 && (
+            <details className="mosh-preview-details">
+              <summary>Preview</summary>
+              <MoshPreview
+                segments={generated}
+                vids={vids}
+                config={config}
+                frameRate={frameRate}
+              />
+            </details>
+          )}
+          <div className="interleave-controls">
+            <button
+              onClick={() => apply(false)}
+              disabled={!validStep || generated.length === 0}
+            >
+              Replace timeline
+            </button>
+            <button
+              onClick={() => apply(true)}
+              disabled={!validStep || generated.length === 0 || segments.length === 0}
+            >
+              Append to timeline
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
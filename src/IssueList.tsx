@@ -0,0 +1,25 @@
+import { IssueFix, TimelineIssue } from "./types";
+
+// Timeline problems, with their fixes as buttons when they can be applied
+export const IssueList = ({
+  issues,
+  onFix,
+}: {
+  issues: TimelineIssue[];
+  onFix?: (issue: TimelineIssue, fix: IssueFix) => unknown;
+}) => (
+  <ul className="issue-list">
+    {issues.map((issue, i) => (
+      <li key={i} className={issue.severity}>
+        {issue.severity === "error" ? "⛔" : "⚠️"} Segment {issue.segment + 1}:{" "}
+        {issue.message}
+        {onFix &&
+          issue.fixes.map((fix) => (
+            <button key={fix.label} onClick={() => onFix(issue, fix)}>
+              {fix.label}
+            </button>
+          ))}
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { chunkDuration, compileChunks } from "./lib";
+import { OutputFrameRate, Segment, Vid } from "./types";
+
+// Plays the compiled timeline through a VideoDecoder so the preview glitches
+// exactly like a render would, without encoding anything
+export const MoshPreview = ({
+  segments,
+  vids,
+  config,
+  frameRate,
+}: {
+  segments: Segment[];
+  vids: Vid[];
+  config: VideoDecoderConfig | null;
+  frameRate: OutputFrameRate;
+}) => {
+  const compiled = useMemo(
+    () => compileChunks(segments, vids, frameRate),
+    [segments, vids, frameRate]
+  );
+  const compiledRef = useRef(compiled);
+  compiledRef.current = compiled;
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const decoderRef = useRef<VideoDecoder | null>(null);
+  const indexRef = useRef(0); // next chunk to decode
+  const timerRef = useRef(0);
+  const loopRef = useRef(true);
+  const [playing, setPlaying] = useState(false);
+  const [loop, setLoop] = useState(true);
+  const [position, setPosition] = useState(0);
+  loopRef.current = loop;
+
+  const stop = () => {
+    clearTimeout(timerRef.current);
+    setPlaying(false);
+  };
+
+  const resetDecoder = () => {
+    if (decoderRef.current?.state !== "closed") decoderRef.current?.close();
+    const decoder = new VideoDecoder({
+      output: (frame) => {
+        const canvas = canvasRef.current;
+        if (canvas) {
+          if (canvas.width !== frame.displayWidth) canvas.width = frame.displayWidth;
+          if (canvas.height !== frame.displayHeight) canvas.height = frame.displayHeight;
+          canvas.getContext("2d")!.drawImage(frame, 0, 0);
+        }
+        frame.close();
+      },
+      error: (error) => {
+        console.error("❌ Preview decoding failed:", error);
+        stop();
+      },
+    });
+    decoder.configure(config!);
+    decoderRef.current = decoder;
+    return decoder;
+  };
+
+  // The decoder can only start on a key chunk, so seeking decodes from the
+  // closest one before the target, which gives the same picture
+  const seek = (target: number) => {
+    const { chunks } = compiledRef.current;
+    if (!config || chunks.length === 0) return false;
+    target = Math.max(0, Math.min(chunks.length - 1, target));
+    let start = target;
+    while (start > 0 && chunks[start].type !== "key") start--;
+    if (chunks[start].type !== "key") {
+      start = chunks.findIndex((chunk) => chunk.type === "key");
+      if (start < 0) {
+        console.error("❌ Preview needs at least one key chunk");
+        return false;
+      }
+      target = Math.max(target, start);
+    }
+    const decoder = resetDecoder();
+    for (let i = start; i <= target; i++) decoder.decode(chunks[i]);
+    indexRef.current = target + 1;
+    setPosition(target);
+    return true;
+  };
+
+  // How long chunk i stays on screen, in milliseconds
+  const frameTime = (i: number) => {
+    const { chunks, holds } = compiledRef.current;
+    return (chunkDuration(chunks[i], frameRate) + (holds[i] ?? 0)) / 1000;
+  };
+
+  const play = () => {
+    if (!decoderRef.current || decoderRef.current.state === "closed") {
+      if (!seek(position)) return;
+    }
+    setPlaying(true);
+    let nextFrameTime = performance.now();
+    const step = () => {
+      const { chunks } = compiledRef.current;
+      if (indexRef.current >= chunks.length) {
+        if (!loopRef.current || !seek(0)) {
+          stop();
+          return;
+        }
+        // seek already showed the first frame
+        nextFrameTime += frameTime(indexRef.current - 1);
+        timerRef.current = window.setTimeout(
+          step,
+          Math.max(0, nextFrameTime - performance.now())
+        );
+        return;
+      }
+      const chunk = chunks[indexRef.current];
+      decoderRef.current!.decode(chunk);
+      setPosition(indexRef.current);
+      indexRef.current++;
+      nextFrameTime += frameTime(indexRef.current - 1);
+      timerRef.current = window.setTimeout(
+        step,
+        Math.max(0, nextFrameTime - performance.now())
+      );
+    };
+    step();
+  };
+
+  useEffect(
+    () => () => {
+      clearTimeout(timerRef.current);
+      if (decoderRef.current?.state !== "closed") decoderRef.current?.close();
+    },
+    []
+  );
+
+  const { chunks, segmentStarts } = compiled;
+  let currentSegment = 0;
+  segmentStarts.forEach((start, i) => {
+    if (start <= position) currentSegment = i;
+  });
+
+  if (!config) return <p>Upload a video to preview the mosh</p>;
+
+  return (
+    <div className="mosh-preview">
+      <canvas ref={canvasRef} />
+      <div className="mosh-preview-controls">
+        {playing ? (
+          <button onClick={stop}>⏸ Pause</button>
+        ) : (
+          <button onClick={play} disabled={chunks.length === 0}>
+            ▶ Play
+          </button>
+        )}
+        <label>
+          <input
+            type="checkbox"
+            checked={loop}
+            onChange={(e) => setLoop(e.target.checked)}
+          />
+          Loop
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, chunks.length - 1)}
+          value={Math.min(position, Math.max(0, chunks.length - 1))}
+          onChange={(e) => seek(parseInt(e.target.value))}
+        />
+        <span>
+          {position + 1}/{chunks.length}
+        </span>
+        <select
+          value={currentSegment}
+          onChange={(e) => seek(segmentStarts[parseInt(e.target.value)])}
+        >
+          {segments.map((segment, i) => (
+            <option key={i} value={i}>
+              Segment {i + 1}:{" "}
+              {segment.hold !== undefined
+                ? `hold ${segment.hold}`
+                : `${segment.name} ${segment.from}→${segment.to}`}{" "}
+              ×{segment.repeat}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
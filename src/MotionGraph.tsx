@@ -0,0 +1,51 @@
+import { useEffect, useRef } from "react";
+
+import { motionLevels, SuggestedRange } from "./analysis";
+import { Vid } from "./types";
+
+const HEIGHT = 40;
+const RANGE_COLORS = { calm: "rgba(76, 175, 80, 0.35)", busy: "rgba(255, 152, 0, 0.45)" };
+
+// Motion of every frame of a vid as bars, scene cuts as red lines and
+// optionally suggested ranges shaded behind them
+export const MotionGraph = ({
+  vid,
+  ranges = [],
+}: {
+  vid: Vid;
+  ranges?: SuggestedRange[];
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const width = canvas.clientWidth || 300;
+    canvas.width = width;
+    canvas.height = HEIGHT;
+    const ctx = canvas.getContext("2d")!;
+    const motion = motionLevels(vid);
+    const x = (frame: number) => (frame / Math.max(1, motion.length)) * width;
+
+    ctx.clearRect(0, 0, width, HEIGHT);
+    for (const { from, to, kind } of ranges) {
+      ctx.fillStyle = RANGE_COLORS[kind];
+      ctx.fillRect(x(from), 0, Math.max(1, x(to) - x(from)), HEIGHT);
+    }
+    ctx.fillStyle = "#4fc3f7";
+    motion.forEach((level, i) => {
+      const height = level * (HEIGHT - 2);
+      ctx.fillRect(x(i), HEIGHT - height, Math.max(1, x(i + 1) - x(i)), height);
+    });
+    ctx.fillStyle = "#ff4444";
+    for (const cut of vid.cuts ?? []) ctx.fillRect(x(cut), 0, 1, HEIGHT);
+  }, [vid, ranges]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="motion-graph"
+      title="Motion per frame from delta chunk sizes, scene cuts in red"
+    />
+  );
+};
@@ -0,0 +1,77 @@
+import { useMemo, useState } from "react";
+
+import { suggestedSegments, suggestRanges } from "./analysis";
+import { MotionGraph } from "./MotionGraph";
+import { SelectInput } from "./SelectInput";
+import { Segment, Vid } from "./types";
+
+const PREVIEW_ROWS = 12;
+
+// Proposes calm ranges of a vid as bases and busy ones as stutters, from the
+// motion graph and the scene cuts found in Files
+export const MotionSuggestions = ({
+  segments,
+  setSegments,
+  vids,
+}: {
+  segments: Segment[];
+  setSegments: (segments: Segment[], label?: string) => unknown;
+  vids: Vid[];
+}) => {
+  const [vidName, setVidName] = useState("");
+  const vid = vids.find((vid) => vid.name === vidName) ?? vids[0];
+  const ranges = useMemo(() => suggestRanges(vid), [vid]);
+  const suggested = suggestedSegments(vid, ranges);
+  const calm = ranges.filter((range) => range.kind === "calm").length;
+
+  const apply = (append: boolean) => {
+    // Appended suggestions don't need the opening key chunk
+    const added = append ? suggested.slice(1) : suggested;
+    setSegments(
+      append ? [...segments, ...added] : added,
+      `Suggested segments from ${vid.name}`
+    );
+  };
+
+  return (
+    <div className="presets-section motion-suggestions">
+      <h3>Suggest Segments</h3>
+      <div className="interleave-controls">
+        <SelectInput
+          value={vid.name}
+          onChange={setVidName}
+          options={vids.map((vid) => vid.name)}
+        />
+        <span>
+          {calm} calm base{calm !== 1 ? "s" : ""}, {ranges.length - calm} stutter
+          {ranges.length - calm !== 1 ? "s" : ""}
+        </span>
+      </div>
+      <MotionGraph vid={vid} ranges={ranges} />
+      {!vid.cuts && (
+        <p className="preset-note">
+          <em>Find the scene cuts of this video in Files so ranges don't cross them.</em>
+        </p>
+      )}
+      <ol className="interleave-rows">
+        {suggested.slice(1, PREVIEW_ROWS + 1).map((s, i) => (
+          <li key={i}>
+            {ranges[i].kind === "calm" ? "🌊" : "⚡"} {s.from}→{s.to} ×{s.repeat}
+          </li>
+        ))}
+        {ranges.length > PREVIEW_ROWS && <li>…</li>}
+      </ol>
+      <div className="interleave-controls">
+        <button onClick={() => apply(false)} disabled={ranges.length === 0}>
+          Replace timeline
+        </button>
+        <button
+          onClick={() => apply(true)}
+          disabled={ranges.length === 0 || segments.length === 0}
+        >
+          Append to timeline
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import { NumberInput } from "./NumberInput";
+import { PRESET_STYLES } from "./presets";
+import { PresetParams, PresetStyle } from "./types";
+
+const REPEAT_BUCKETS = ["1", "2", "3-4", "5-7", "8-12"];
+
+const Chance = ({
+  label,
+  value,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => unknown;
+  disabled: boolean;
+}) => (
+  <label>
+    <span>{label}</span>
+    <input
+      type="range"
+      min={0}
+      max={1}
+      step={0.05}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+    />
+    <span>{Math.round(value * 100)}%</span>
+  </label>
+);
+
+// Generation parameters of a preset, read-only without onChange
+export const PresetEditor = ({
+  params,
+  onChange,
+}: {
+  params: PresetParams;
+  onChange?: (params: PresetParams) => unknown;
+}) => {
+  const disabled = !onChange;
+  const update = (patch: Partial<PresetParams>) =>
+    onChange?.({ ...params, ...patch });
+
+  return (
+    <div className="preset-editor">
+      <label>
+        <span>Style</span>
+        <select
+          value={params.style}
+          disabled={disabled}
+          onChange={(e) => update({ style: e.target.value as PresetStyle })}
+        >
+          {PRESET_STYLES.map((style) => (
+            <option key={style}>{style}</option>
+          ))}
+        </select>
+      </label>
+      <Chance
+        label="Short segments"
+        value={params.shortSegments}
+        onChange={(shortSegments) => update({ shortSegments })}
+        disabled={disabled}
+      />
+      <Chance
+        label="Use segment"
+        value={params.includeChance}
+        onChange={(includeChance) => update({ includeChance })}
+        disabled={disabled}
+      />
+      <Chance
+        label="+ per later video"
+        value={params.includeChancePerVid}
+        onChange={(includeChancePerVid) => update({ includeChancePerVid })}
+        disabled={disabled}
+      />
+      <Chance
+        label="Style extras"
+        value={params.extraChance}
+        onChange={(extraChance) => update({ extraChance })}
+        disabled={disabled}
+      />
+      <label>
+        <input
+          type="checkbox"
+          checked={params.shuffle}
+          disabled={disabled}
+          onChange={(e) => update({ shuffle: e.target.checked })}
+        />
+        <span>Shuffle</span>
+      </label>
+      <div className="preset-repeat-weights">
+        <span>Repeat odds</span>
+        {REPEAT_BUCKETS.map((bucket, i) => (
+          <label key={bucket}>
+            <span>×{bucket}</span>
+            <NumberInput
+              value={params.repeatWeights[i] ?? 0}
+              min={0}
+              disabled={disabled}
+              onChange={(weight) => {
+                const repeatWeights = REPEAT_BUCKETS.map(
+                  (_, j) => params.repeatWeights[j] ?? 0
+                );
+                repeatWeights[i] = Math.max(0, weight);
+                update({ repeatWeights });
+              }}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import { useState } from "react";
+
+import { Section } from "./components/Section";
+import {
+  LoadedProject,
+  loadProject,
+  PROJECT_EXTENSION,
+  ProjectState,
+  saveProject,
+} from "./project";
+
+export const ProjectEditor = ({
+  project,
+  onLoad,
+}: {
+  project: ProjectState;
+  onLoad: (project: LoadedProject) => unknown;
+}) => {
+  const [includeMedia, setIncludeMedia] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const save = async () => {
+    setBusy(true);
+    try {
+      const bundle = await saveProject(project, includeMedia);
+      const url = URL.createObjectURL(bundle);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `supermosh-${new Date().toISOString()}.${PROJECT_EXTENSION}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      console.log(`💾 Saved project (${(bundle.size / 1024 / 1024).toFixed(1)}MB)`);
+    } catch (error) {
+      console.error("❌ Failed to save project:", error);
+      alert(`Failed to save project: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const load = async (file: File) => {
+    setBusy(true);
+    try {
+      const loaded = await loadProject(file);
+      const { manifest, files } = loaded;
+      // Media left out of the bundle can still be bound to loaded vids by name
+      const available = [
+        ...files.map(({ name }) => name),
+        ...project.vids.map(({ name }) => name),
+      ];
+      const missingVids = [
+        ...new Set([
+          ...manifest.vids.map(({ name }) => name),
+          ...manifest.segments.map(({ name }) => name),
+        ]),
+      ].filter((name) => !available.includes(name));
+
+      onLoad(loaded);
+      console.log(
+        `📂 Loaded project: ${manifest.segments.length} segments, ${files.length} bundled videos`
+      );
+      if (missingVids.length > 0 || loaded.missingSamples.length > 0) {
+        console.warn("Project media missing:", { missingVids, missingSamples: loaded.missingSamples });
+        alert(
+          [
+            "⚠️ Some media referenced by this project is missing.",
+            missingVids.length > 0 &&
+              `\nVideos (upload them with the same names):\n${missingVids.join("\n")}`,
+            loaded.missingSamples.length > 0 &&
+              `\nSamples:\n${loaded.missingSamples.join("\n")}`,
+          ]
+            .filter(Boolean)
+            .join("\n")
+        );
+      }
+    } catch (error) {
+      console.error("❌ Failed to load project:", error);
+      alert(`Failed to load project: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Section name="Project">
+      <div className="project-controls">
+        <label>
+          <input
+            type="checkbox"
+            checked={includeMedia}
+            onChange={(e) => setIncludeMedia(e.target.checked)}
+          />
+          Include source videos and custom samples
+        </label>
+        <button onClick={save} disabled={busy}>
+          💾 Save project
+        </button>
+        <label>
+          <span>📂 Load project:</span>
+          <input
+            type="file"
+            accept={`.${PROJECT_EXTENSION},.zip`}
+            disabled={busy}
+            onChange={(evt) => {
+              const file = evt.target.files?.[0];
+              evt.target.value = "";
+              if (file) load(file);
+            }}
+          />
+        </label>
+      </div>
+    </Section>
+  );
+};
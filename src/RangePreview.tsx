@@ -4,8 +4,9 @@ import { Vid } from "./types";
 
 export const RangePreview = ({ vid, i }: { vid: Vid; i: number }) => {
   const ref = useRef(null as null | HTMLVideoElement);
-  if (ref.current && !isNaN(ref.current.duration)) {
-    ref.current.currentTime = (i * ref.current.duration) / vid.chunks.length;
+  const chunk = vid.chunks[Math.min(i, vid.chunks.length - 1)];
+  if (ref.current && chunk) {
+    ref.current.currentTime = (chunk.timestamp - vid.chunks[0].timestamp) / 1e6;
   }
   return <video className="RangePreview" src={vid.src} ref={ref} />;
 };
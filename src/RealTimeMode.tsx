@@ -1,5 +1,6 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Section } from "./components/Section";
+import { compileTimeline } from "./lib";
 import { NumberInput } from "./NumberInput";
 import { AudioAnalysis, RealTimeSettings, Vid, Segment } from "./types";
 
@@ -68,9 +69,11 @@ export const RealTimeMode = ({
   // Timeline playback state
   const [timelinePosition, setTimelinePosition] = useState<number>(0);
   const timelineStartTime = useRef<number>(0);
-  const currentSegmentIndex = useRef<number>(0);
-  const segmentFrameIndex = useRef<number>(0);
-  const segmentRepeatCount = useRef<number>(0);
+  const planPosition = useRef<number>(0); // next planned frame to draw
+  const plan = useMemo(() => compileTimeline(segments, vids), [segments, vids]);
+  const planRef = useRef(plan);
+  planRef.current = plan;
+  const lastTimelineVideo = useRef<HTMLVideoElement | null>(null); // redrawn by holds
 
   // Enumerate available audio devices
   const loadAudioDevices = async () => {
@@ -398,54 +401,37 @@ export const RealTimeMode = ({
     }
     
     // Priority 2: Fallback to timeline segments
-    if (segments.length > 0) {
-      // Get current segment
-      const currentSegment = segments[currentSegmentIndex.current];
-      if (!currentSegment) {
+    const { frames } = planRef.current;
+    if (frames.length > 0) {
+      const frame = frames[planPosition.current];
+      if (!frame) {
         // End of timeline - restart
-        currentSegmentIndex.current = 0;
-        segmentFrameIndex.current = 0;
-        segmentRepeatCount.current = 0;
+        planPosition.current = 0;
         return { success: false, source: 'timeline-ended' };
       }
 
-      // Find the video for this segment
-      const vid = vids.find(v => v.name === currentSegment.name);
-      if (!vid) return { success: false, source: 'no-vid' };
+      // Hold frames keep showing the last drawn frame without seeking
+      if (!frame.source) {
+        const video = lastTimelineVideo.current;
+        if (video) ctx.drawImage(video, 0, 0, settings.width, settings.height);
+        planPosition.current++;
+        return { success: !!video, source: 'timeline-hold' };
+      }
 
       // Get the video element
-      const video = videoRefs.current.find((_, i) => vids[i]?.name === currentSegment.name);
+      const { vid, index } = frame.source;
+      const video = videoRefs.current.find((_, i) => vids[i]?.name === vid.name);
       if (!video || video.readyState < 2) return { success: false, source: 'video-not-ready' };
 
-      // Calculate frame position within the segment
-      const segmentLength = currentSegment.to - currentSegment.from;
-      const frameInSegment = segmentFrameIndex.current % segmentLength;
-      const absoluteFrame = currentSegment.from + frameInSegment;
-      
-      // Set video time to the correct frame (assuming 30 FPS)
-      const timePerFrame = video.duration / vid.chunks.length;
-      video.currentTime = absoluteFrame * timePerFrame;
+      // Set video time to the correct frame from its chunk timestamp
+      video.currentTime = (vid.chunks[index].timestamp - vid.chunks[0].timestamp) / 1e6;
       
       // Draw the video frame
       ctx.drawImage(video, 0, 0, settings.width, settings.height);
+      lastTimelineVideo.current = video;
       
       // Advance timeline position
-      segmentFrameIndex.current++;
-      
-      // Check if we need to repeat the segment or move to next
-      if (frameInSegment >= segmentLength - 1) {
-        segmentRepeatCount.current++;
-        
-        if (segmentRepeatCount.current >= currentSegment.repeat) {
-          // Move to next segment
-          currentSegmentIndex.current++;
-          segmentFrameIndex.current = 0;
-          segmentRepeatCount.current = 0;
-        } else {
-          // Repeat current segment
-          segmentFrameIndex.current = 0;
-        }
-      }
+      planPosition.current++;
       
       return { success: true, source: 'timeline' };
     }
@@ -499,10 +485,12 @@ export const RealTimeMode = ({
         ctx.fillStyle = 'rgba(0, 255, 0, 0.1)';
         ctx.fillRect(0, 0, settings.width, 30);
         ctx.fillStyle = '#00ff00';
-      } else if (renderResult.source === 'timeline') {
-        const segmentInfo = segments[currentSegmentIndex.current];
+      } else if (renderResult.source === 'timeline' || renderResult.source === 'timeline-hold') {
+        // The frame just drawn
+        const frame = planRef.current.frames[planPosition.current - 1];
+        const segmentInfo = frame && segments[frame.segment];
         displayText = segmentInfo 
-          ? `🎵 LIVE | Seg ${currentSegmentIndex.current + 1}/${segments.length} | ${segmentInfo.name} | ${(analysis.amplitude * 100).toFixed(0)}%`
+          ? `🎵 LIVE | Seg ${frame.segment + 1}/${segments.length} | ${segmentInfo.name} | ${(analysis.amplitude * 100).toFixed(0)}%`
           : `🎵 LIVE | Timeline | ${(analysis.amplitude * 100).toFixed(0)}%`;
       }
       
@@ -572,9 +560,7 @@ export const RealTimeMode = ({
         setRealTimeSettings({ ...realTimeSettings, enabled: true });
         
         // Reset timeline playback to start
-        currentSegmentIndex.current = 0;
-        segmentFrameIndex.current = 0;
-        segmentRepeatCount.current = 0;
+        planPosition.current = 0;
         timelineStartTime.current = Date.now();
         
         // Start animation immediately, no timeout
@@ -1,10 +1,36 @@
-import { Dispatch, SetStateAction, useEffect, useRef, useState } from "react";
+import {
+  Dispatch,
+  SetStateAction,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 
 import { AudioEngine } from "./AudioEngine";
 import { Section } from "./components/Section";
-import { record, recordWithAudio } from "./lib";
+import { IssueList } from "./IssueList";
+import {
+  compileChunks,
+  compileTimeline,
+  encode,
+  planFrameAt,
+  record,
+  recordWithAudio,
+  remux,
+  remuxWithAudio,
+} from "./lib";
 import { NumberInput } from "./NumberInput";
-import { AudioSettings, Segment, Settings, Vid } from "./types";
+import {
+  AudioSettings,
+  OutputFrameRate,
+  RenderMode,
+  Sample,
+  Segment,
+  Settings,
+  TimelineIssue,
+  Vid,
+} from "./types";
 import { FFmpeg } from "@ffmpeg/ffmpeg";
 
 export const Rendering = ({
@@ -13,25 +39,38 @@ export const Rendering = ({
   config,
   settings,
   setSettings,
+  frameRate,
+  setFrameRate,
   preprocessSettings,
   onRenderedVideo,
   ffmpeg,
   onSamplesChange,
+  importedSamples,
+  pendingKeyframes = 0,
+  soundtrack = null,
+  issues = [],
 }: {
   segments: Segment[];
   vids: Vid[];
   config: VideoDecoderConfig | null;
   settings: Settings;
   setSettings: Dispatch<SetStateAction<Settings>>;
+  frameRate: OutputFrameRate;
+  setFrameRate: Dispatch<SetStateAction<OutputFrameRate>>;
   preprocessSettings: Settings;
   onRenderedVideo?: (src: string) => void;
   ffmpeg?: FFmpeg;
   onSamplesChange?: (samples: { name: string; url: string; file?: File }[]) => void;
+  importedSamples?: Sample[];
+  pendingKeyframes?: number;
+  soundtrack?: File | null;
+  issues?: TimelineIssue[];
 }) => {
   const [rendering, setRendering] = useState(false);
   const [progress, setProgress] = useState(0);
   const [src, setSrc] = useState("");
   const [downloadName, setDownloadName] = useState("");
+  const [renderMode, setRenderMode] = useState<RenderMode>("offline");
   
   // Audio engine state
   const [audioSettings, setAudioSettings] = useState<AudioSettings>({
@@ -44,50 +83,19 @@ export const Rendering = ({
   const [currentSegmentIndex, setCurrentSegmentIndex] = useState(-1);
   const videoRef = useRef<HTMLVideoElement>(null);
   const playbackTimerRef = useRef<number | null>(null);
-  
-  // Calculate segment timing for audio sync
-  const calculateSegmentTiming = () => {
-    const segmentTimings: { startTime: number; duration: number; segmentIndex: number }[] = [];
-    let currentTime = 0;
-    
-    segments.forEach((segment, segmentIndex) => {
-      const vid = vids.find(v => v.name === segment.name);
-      if (!vid) return;
-      
-      const segmentFrames = segment.to - segment.from;
-      const segmentDuration = segmentFrames / 30; // Assuming 30 FPS
-      
-      // Add each repeat of the segment
-      for (let repeat = 0; repeat < segment.repeat; repeat++) {
-        segmentTimings.push({
-          startTime: currentTime,
-          duration: segmentDuration,
-          segmentIndex,
-        });
-        currentTime += segmentDuration;
-      }
-    });
-    
-    return segmentTimings;
-  };
+  const errors = issues.filter((issue) => issue.severity === "error");
+  const plan = useMemo(
+    () => compileTimeline(segments, vids, frameRate),
+    [segments, vids, frameRate]
+  );
   
   // Track video playback and sync audio
   const syncAudioWithVideo = () => {
     if (!videoRef.current || !isVideoPlaying) return;
     
-    const currentTime = videoRef.current.currentTime;
-    const segmentTimings = calculateSegmentTiming();
-    
     // Find current segment based on video time
-    const currentSegment = segmentTimings.find(
-      timing => currentTime >= timing.startTime && currentTime < timing.startTime + timing.duration
-    );
-    
-    if (currentSegment && currentSegment.segmentIndex !== currentSegmentIndex) {
-      setCurrentSegmentIndex(currentSegment.segmentIndex);
-    } else if (!currentSegment && currentSegmentIndex !== -1) {
-      setCurrentSegmentIndex(-1);
-    }
+    const frame = planFrameAt(plan, videoRef.current.currentTime * 1e6);
+    setCurrentSegmentIndex(frame >= 0 ? plan.frames[frame].segment : -1);
   };
   
   // Video event handlers
@@ -111,7 +119,7 @@ export const Rendering = ({
       const interval = setInterval(syncAudioWithVideo, 100); // Check every 100ms
       return () => clearInterval(interval);
     }
-  }, [isVideoPlaying, segments]);
+  }, [isVideoPlaying, plan]);
   
   // Cleanup on unmount
   useEffect(() => {
@@ -160,6 +168,23 @@ export const Rendering = ({
           flip
         </button>
       </p>
+      <p>
+        <span>Frame rate:</span>
+        {(["source", 24, 25, 30, 60] as OutputFrameRate[]).map((rate) => (
+          <button
+            key={rate}
+            onClick={() => setFrameRate(rate)}
+            disabled={frameRate === rate}
+          >
+            {rate === "source" ? "source" : `${rate}fps`}
+          </button>
+        ))}
+        {frameRate === "source" && (
+          <span className="render-mode-note">
+            {" "}each frame keeps its source duration
+          </span>
+        )}
+      </p>
 
       {segments.length === 0 || config === null ? (
         <p>Please add segments in the timeline</p>
@@ -171,6 +196,18 @@ export const Rendering = ({
       ) : (
         <div>
           <div className="render-controls">
+            <label className="render-mode">
+              Renderer:
+              <select
+                value={renderMode}
+                onChange={(e) => setRenderMode(e.target.value as RenderMode)}
+                disabled={rendering}
+              >
+                <option value="offline">Offline (VideoEncoder, frame-accurate)</option>
+                <option value="realtime">Real-time (MediaRecorder)</option>
+                <option value="bitstream">Raw bitstream (no re-encode)</option>
+              </select>
+            </label>
             <button
               onClick={async () => {
                 setRendering(true);
@@ -181,106 +218,157 @@ export const Rendering = ({
                   onRenderedVideo("");
                 }
 
-                const chunks = segments.flatMap((s) =>
-                  Array(s.repeat)
-                    .fill(null)
-                    .flatMap(() =>
-                      vids
-                        .find((vid) => vid.name === s.name)!
-                        .chunks.slice(s.from, s.to)
-                    )
-                );
+                try {
+                  const { chunks, holds } = compileChunks(segments, vids, frameRate);
                 
-                console.log('🎬 Rendering with segments:', segments);
-                console.log('🎬 Total chunks to render:', chunks.length);
-                console.log('🎬 First few segments:', segments.slice(0, 3));
+                  console.log('🎬 Rendering with segments:', segments);
+                  console.log('🎬 Total chunks to render:', chunks.length);
+                  console.log('🎬 First few segments:', segments.slice(0, 3));
                 
-                // Check if any segments have audio
-                const hasAudio = segments.some(s => s.audio);
-                const shouldIncludeAudio = hasAudio && ffmpeg; // Auto-include audio if segments have it and FFmpeg is available
+                  // Check if any segments have audio
+                  const hasAudio = segments.some(s => s.audio) || !!soundtrack;
+                  const shouldIncludeAudio = hasAudio && ffmpeg; // Auto-include audio if segments have it and FFmpeg is available
                 
-                console.log('🎵 Audio Export Debug:', { 
-                  totalSegments: segments.length,
-                  segmentsWithAudio: segments.filter(s => s.audio).length,
-                  hasAudio, 
-                  shouldIncludeAudio, 
-                  ffmpegAvailable: !!ffmpeg,
-                  ffmpegLoaded: ffmpeg?.loaded,
-                  audioSegmentDetails: segments.map(s => ({
-                    name: s.name,
-                    hasAudio: !!s.audio,
-                    audioType: s.audio?.type,
-                    audioConfig: s.audio
-                  }))
-                });
+                  console.log('🎵 Audio Export Debug:', { 
+                    totalSegments: segments.length,
+                    segmentsWithAudio: segments.filter(s => s.audio).length,
+                    hasAudio, 
+                    shouldIncludeAudio, 
+                    ffmpegAvailable: !!ffmpeg,
+                    ffmpegLoaded: ffmpeg?.loaded,
+                    audioSegmentDetails: segments.map(s => ({
+                      name: s.name,
+                      hasAudio: !!s.audio,
+                      audioType: s.audio?.type,
+                      audioConfig: s.audio
+                    }))
+                  });
                 
-                // Detailed segment analysis
-                segments.forEach((seg, i) => {
-                  const vid = vids.find(v => v.name === seg.name);
-                  const segmentChunks = (seg.to - seg.from) * seg.repeat;
-                  console.log(`🎬 Segment ${i}:`, {
-                    name: seg.name,
-                    from: seg.from,
-                    to: seg.to,
-                    repeat: seg.repeat,
-                    length: seg.to - seg.from,
-                    totalChunks: segmentChunks,
-                    videoTotalChunks: vid?.chunks.length,
-                    hasAudio: !!seg.audio,
-                    audioType: seg.audio?.type
+                  // Detailed segment analysis
+                  segments.forEach((seg, i) => {
+                    const vid = vids.find(v => v.name === seg.name);
+                    const segmentChunks = (seg.to - seg.from) * seg.repeat;
+                    console.log(`🎬 Segment ${i}:`, {
+                      name: seg.name,
+                      from: seg.from,
+                      to: seg.to,
+                      repeat: seg.repeat,
+                      length: seg.to - seg.from,
+                      totalChunks: segmentChunks,
+                      videoTotalChunks: vid?.chunks.length,
+                      hasAudio: !!seg.audio,
+                      audioType: seg.audio?.type
+                    });
                   });
-                });
                 
-                const mimeType = MediaRecorder.isTypeSupported("video/mp4")
-                  ? "video/mp4"
-                  : "video/webm";
+                  const mimeType = MediaRecorder.isTypeSupported("video/mp4")
+                    ? "video/mp4"
+                    : "video/webm";
                 
-                let newSrc: string;
+                  let newSrc: string;
                 
-                if (shouldIncludeAudio) {
-                  console.log('🎵 Rendering with audio...');
-                  newSrc = await recordWithAudio(
-                    chunks,
-                    config,
-                    mimeType,
-                    settings,
-                    segments,
-                    audioSettings.volume,
-                    ffmpeg!,
-                    setProgress
-                  );
-                } else {
-                  console.log('🎬 Rendering video only...');
-                  newSrc = await record(
-                    chunks,
-                    config,
-                    mimeType,
-                    settings,
-                    setProgress
-                  );
-                }
+                  if (renderMode === "bitstream") {
+                    console.log('🎬 Exporting raw bitstream...');
+                    newSrc = shouldIncludeAudio
+                      ? await remuxWithAudio(
+                          chunks,
+                          holds,
+                          config,
+                          settings,
+                          frameRate,
+                          segments,
+                          vids,
+                          audioSettings.volume,
+                          ffmpeg!,
+                          setProgress,
+                          soundtrack ?? undefined
+                        )
+                      : URL.createObjectURL(
+                          remux(chunks, holds, config, settings, frameRate)
+                        );
+                  } else if (shouldIncludeAudio) {
+                    console.log('🎵 Rendering with audio...');
+                    newSrc = await recordWithAudio(
+                      chunks,
+                      holds,
+                      config,
+                      mimeType,
+                      settings,
+                      frameRate,
+                      segments,
+                      vids,
+                      audioSettings.volume,
+                      ffmpeg!,
+                      renderMode,
+                      setProgress,
+                      soundtrack ?? undefined
+                    );
+                  } else if (renderMode === "offline") {
+                    console.log('🎬 Encoding video only...');
+                    newSrc = await encode(chunks, holds, config, settings, frameRate, setProgress);
+                  } else {
+                    console.log('🎬 Rendering video only...');
+                    newSrc = await record(
+                      chunks,
+                      holds,
+                      config,
+                      mimeType,
+                      settings,
+                      frameRate,
+                      setProgress
+                    );
+                  }
                 
-                setSrc(newSrc);
-                setDownloadName(
-                  `Supermosh_${new Date()
-                    .toISOString()
-                    .substring(0, 19)
-                    .replaceAll(":", "-")}.${
-                    shouldIncludeAudio ? "mp4" : (mimeType === "video/mp4" ? "mp4" : "webm")
-                  }`
-                );
-                setRendering(false);
+                  setSrc(newSrc);
+                  setDownloadName(
+                    `Supermosh_${new Date()
+                      .toISOString()
+                      .substring(0, 19)
+                      .replaceAll(":", "-")}.${
+                      shouldIncludeAudio || renderMode !== "realtime" ? "mp4" : (mimeType === "video/mp4" ? "mp4" : "webm")
+                    }`
+                  );
                 
-                // Notify parent component about the new rendered video
-                if (onRenderedVideo) {
-                  onRenderedVideo(newSrc);
+                  // Notify parent component about the new rendered video
+                  if (onRenderedVideo) {
+                    onRenderedVideo(newSrc);
+                  }
+                } catch (error) {
+                  console.error('❌ Rendering failed:', error);
+                  alert(`Rendering failed: ${error instanceof Error ? error.message : error}`);
+                } finally {
+                  setRendering(false);
                 }
               }}
-              disabled={rendering}
+              disabled={rendering || pendingKeyframes > 0 || errors.length > 0}
             >
               {rendering ? "Rendering..." : "🎬 Render Video"}
             </button>
+            {errors.length > 0 && (
+              <div className="render-mode-note">
+                ⛔ Fix {errors.length} timeline problem{errors.length !== 1 ? "s" : ""}{" "}
+                before rendering:
+                <IssueList issues={errors} />
+              </div>
+            )}
+            {pendingKeyframes > 0 && (
+              <p className="render-mode-note">
+                🔑 Re-encoding {pendingKeyframes} forced keyframe
+                {pendingKeyframes !== 1 ? "s" : ""}...
+              </p>
+            )}
+            {renderMode === "bitstream" && (
+              <p className="render-mode-note">
+                The moshed chunks are copied as-is: the file glitches natively
+                in players, and results may differ between players.
+              </p>
+            )}
             
+            {soundtrack && (
+              <p className="render-mode-note">
+                🎵 Soundtrack: {soundtrack.name}
+              </p>
+            )}
             {segments.some(s => s.audio) && (
               <div className="audio-render-info">
                 <span className="audio-indicator">
@@ -315,6 +403,7 @@ export const Rendering = ({
               settings={audioSettings}
               onSettingsChange={setAudioSettings}
               onSamplesChange={onSamplesChange}
+              importedSamples={importedSamples}
             />
           </div>
         </div>
@@ -1,46 +1,222 @@
 import { FFmpeg } from "@ffmpeg/ffmpeg";
-import { toBlobURL } from "@ffmpeg/util";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 
+import { ClassicMoshWizard } from "./ClassicMoshWizard";
 import { FilesEditor } from "./FilesEditor";
+import { HistoryPanel } from "./HistoryPanel";
+import { loadFFmpeg } from "./lib";
+import {
+  autosaveProject,
+  clearPreviousSession,
+  LoadedProject,
+  matchSamples,
+  rebindSamples,
+  restoreCachedVids,
+  takePreviousSession,
+} from "./project";
+import { ProjectEditor } from "./ProjectEditor";
 import { RealTimeMode } from "./RealTimeMode";
 import { Rendering } from "./Rendering";
 import { Timeline } from "./Timeline";
-import { Segment, Vid } from "./types";
+import {
+  EditState,
+  ProjectManifest,
+  Sample,
+  Segment,
+  Vid,
+} from "./types";
+import { useForcedKeyframes } from "./useForcedKeyframes";
+import { useHistory } from "./useHistory";
+import { usePreprocessQueue } from "./usePreprocessQueue";
+import { validateTimeline } from "./validation";
+
+const AUTOSAVE_DELAY = 1000;
 
 export const Studio = () => {
   const [loadingFfmpeg, setLoadingFfmpeg] = useState(true);
   const ffmpegRef = useRef(new FFmpeg());
   const [vids, setVids] = useState<Vid[]>([]);
-  const [progress, setProgress] = useState(0);
-  const [segments, setSegments] = useState<Segment[]>([]);
-  const [config, setConfig] = useState<VideoDecoderConfig | null>(null);
-  const [settings, setSettings] = useState({
-    width: 640,
-    height: 480,
+  const history = useHistory<EditState>({
+    segments: [],
+    settings: {
+      width: 640,
+      height: 480,
+    },
+    frameRate: "source",
   });
+  const { segments, settings, frameRate } = history.state;
+  const setSegments = history.setField("segments", "Edit segments");
+  const setSettings = history.setField("settings", "Change resolution");
+  const setFrameRate = history.setField("frameRate", "Change frame rate");
+  const [config, setConfig] = useState<VideoDecoderConfig | null>(null);
   const [preprocessSettings, setPreprocessSettings] = useState(settings);
   const [renderedVideoSrc, setRenderedVideoSrc] = useState<string>("");
   const [availableSamples, setAvailableSamples] = useState<{ name: string; url: string; file?: File }[]>([]);
+  const [importedSamples, setImportedSamples] = useState<Sample[]>([]);
+  const [soundtrack, setSoundtrack] = useState<File | null>(null);
+  const [cacheVersion, setCacheVersion] = useState(0);
+  const [previousSession, setPreviousSession] = useState(takePreviousSession);
+  // Restored samples waiting to be uploaded again under the same name
+  const [unboundSamples, setUnboundSamples] = useState<
+    ProjectManifest["samples"]
+  >([]);
+  const preprocessQueue = usePreprocessQueue({
+    onConfig: setConfig,
+    onCached: () => setCacheVersion((n) => n + 1),
+    onDone: (job, { chunks, fps, cacheKey }) => {
+      // Reprocessed vids keep their name, new uploads are appended
+      setVids((prev) =>
+        prev.some((vid) => vid.name === job.name)
+          ? prev.map((vid) =>
+              vid.name === job.name
+                ? {
+                    ...vid,
+                    chunks,
+                    fps,
+                    cacheKey,
+                    keyframes: undefined,
+                    keyframeErrors: undefined,
+                    cuts: undefined,
+                  }
+                : vid
+            )
+          : [
+              ...prev,
+              {
+                file: job.file,
+                name: job.name,
+                src: URL.createObjectURL(job.file),
+                chunks,
+                fps,
+                cacheKey,
+                still: job.still,
+              },
+            ]
+      );
+      setPreprocessSettings(job.settings);
+      console.log(`✅ Processed ${job.name}: ${chunks.length} frames`);
+    },
+  });
+
+  const pendingKeyframeCount = useForcedKeyframes({
+    ffmpeg: ffmpegRef.current,
+    ready: !loadingFfmpeg,
+    segments,
+    vids,
+    setVids,
+    settings: preprocessSettings,
+    config,
+  });
+  const issues = useMemo(
+    () => validateTimeline(segments, vids, availableSamples),
+    [segments, vids, availableSamples]
+  );
+
+  const applyManifest = (
+    manifest: ProjectManifest,
+    segments: Segment[],
+    label: string
+  ) => {
+    history.commit(label, () => ({
+      segments,
+      settings: manifest.settings,
+      frameRate: manifest.frameRate,
+    }));
+    setPreprocessSettings(manifest.preprocessSettings);
+  };
+
+  const applyProject = ({ manifest, segments, files, samples }: LoadedProject) => {
+    // Loaded vids stay only when the project needs them and didn't bundle them
+    const bundled = files.map(({ name }) => name);
+    const needed = manifest.vids.map(({ name }) => name);
+    setVids((prev) =>
+      prev.filter(
+        ({ name }) => needed.includes(name) && !bundled.includes(name)
+      )
+    );
+    applyManifest(manifest, segments, "Load project");
+    setImportedSamples(samples);
+    preprocessQueue.enqueue(files, manifest.preprocessSettings);
+  };
+
+  const restoreSession = async (manifest: ProjectManifest) => {
+    const restored = await restoreCachedVids(manifest);
+    setVids(restored.vids);
+    if (restored.config) setConfig(restored.config);
+    const { sampleUrls, unmatched } = matchSamples(
+      manifest.samples,
+      availableSamples
+    );
+    applyManifest(
+      manifest,
+      rebindSamples(manifest.segments, sampleUrls),
+      "Restore session"
+    );
+    setUnboundSamples(unmatched);
+    clearPreviousSession();
+    setPreviousSession(null);
+    console.log(`🩹 Restored session with ${restored.vids.length} videos`);
+    if (restored.missing.length > 0 || unmatched.length > 0) {
+      alert(
+        [
+          "⚠️ Some media could not be restored.",
+          restored.missing.length > 0 &&
+            `\nVideos no longer in the media cache (upload them with the same names):\n${restored.missing.join("\n")}`,
+          unmatched.length > 0 &&
+            `\nCustom samples (upload them again with the same names):\n${unmatched.map(({ name }) => name).join("\n")}`,
+        ]
+          .filter(Boolean)
+          .join("\n")
+      );
+    }
+  };
 
+  // Samples uploaded again after a restore take back their segments
   useEffect(() => {
-    (async () => {
-      ffmpegRef.current.on("progress", (evt) => setProgress(evt.progress));
+    if (unboundSamples.length === 0) return;
+    const { sampleUrls, unmatched } = matchSamples(
+      unboundSamples,
+      availableSamples
+    );
+    if (sampleUrls.size === 0) return;
+    setSegments(
+      (prev) => rebindSamples(prev, sampleUrls),
+      "Reconnect samples"
+    );
+    setUnboundSamples(unmatched);
+  }, [unboundSamples, availableSamples, setSegments]);
 
-      const baseURL = "https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm";
-      console.log("loading ffmpeg...");
-      await ffmpegRef.current.load({
-        coreURL: await toBlobURL(
-          `${baseURL}/ffmpeg-core.js`,
-          "text/javascript"
-        ),
-        wasmURL: await toBlobURL(
-          `${baseURL}/ffmpeg-core.wasm`,
-          "application/wasm"
+  useEffect(() => {
+    const timeout = setTimeout(
+      () =>
+        autosaveProject(
+          {
+            vids,
+            segments,
+            settings,
+            preprocessSettings,
+            frameRate,
+            samples: availableSamples,
+          },
+          unboundSamples
         ),
-      });
+      AUTOSAVE_DELAY
+    );
+    return () => clearTimeout(timeout);
+  }, [
+    vids,
+    segments,
+    settings,
+    preprocessSettings,
+    frameRate,
+    availableSamples,
+    unboundSamples,
+  ]);
+
+  useEffect(() => {
+    (async () => {
+      await loadFFmpeg(ffmpegRef.current);
       setLoadingFfmpeg(false);
-      console.log("ffmpeg loaded");
     })();
   }, []);
 
@@ -48,17 +224,57 @@ export const Studio = () => {
     <>Loading...</>
   ) : (
     <main className="Studio">
+      {previousSession && (
+        <div className="restore-session">
+          <span>
+            🩹 Found an unsaved session from your last visit (
+            {previousSession.segments.length} segments,{" "}
+            {previousSession.vids.length} videos)
+          </span>
+          <button onClick={() => restoreSession(previousSession)}>
+            Restore previous session
+          </button>
+          <button
+            onClick={() => {
+              clearPreviousSession();
+              setPreviousSession(null);
+            }}
+          >
+            Discard
+          </button>
+        </div>
+      )}
+      <ProjectEditor
+        project={{
+          vids,
+          segments,
+          settings,
+          preprocessSettings,
+          frameRate,
+          samples: availableSamples,
+        }}
+        onLoad={applyProject}
+      />
       <FilesEditor
         vids={vids}
         setVids={setVids}
-        progress={progress}
-        ffmpeg={ffmpegRef.current}
         onConfig={setConfig}
+        config={config}
         settings={settings}
         preprocessSettings={preprocessSettings}
         setPreprocessSettings={setPreprocessSettings}
+        queue={preprocessQueue}
+        cacheVersion={cacheVersion}
+        onCacheChange={() => setCacheVersion((n) => n + 1)}
+      />
+      <ClassicMoshWizard
+        vids={vids}
+        queue={preprocessQueue}
+        preprocessSettings={preprocessSettings}
+        setSegments={setSegments}
       />
-      <Timeline vids={vids} segments={segments} setSegments={setSegments} availableSamples={availableSamples} />
+      <Timeline vids={vids} segments={segments} setSegments={setSegments} availableSamples={availableSamples} config={config} frameRate={frameRate} soundtrack={soundtrack} onSoundtrack={setSoundtrack} issues={issues} />
+      <HistoryPanel history={history} />
       <RealTimeMode vids={vids} segments={segments} settings={settings} renderedVideoSrc={renderedVideoSrc} />
               <Rendering
           vids={vids}
@@ -66,10 +282,16 @@ export const Studio = () => {
           config={config}
           settings={settings}
           setSettings={setSettings}
+          frameRate={frameRate}
+          setFrameRate={setFrameRate}
           preprocessSettings={preprocessSettings}
           onRenderedVideo={setRenderedVideoSrc}
           ffmpeg={ffmpegRef.current}
           onSamplesChange={setAvailableSamples}
+          importedSamples={importedSamples}
+          pendingKeyframes={pendingKeyframeCount}
+          soundtrack={soundtrack}
+          issues={issues}
         />
     </main>
   );
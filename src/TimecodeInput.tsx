@@ -0,0 +1,64 @@
+import { InputHTMLAttributes, useEffect, useState } from "react";
+
+import { formatTimecode, parseTimecode } from "./timecode";
+import { InputProps } from "./types";
+
+// Frame number input that also takes seconds ("1.5s") or mm:ss:ff at `fps`.
+// Plain numbers within min..max apply as they're typed like NumberInput, the
+// rest once entered or on blur, clamped, since they're only complete then
+export const TimecodeInput = ({
+  value,
+  onChange,
+  fps,
+  min = 0,
+  max = Infinity,
+  onBlur,
+  ...nativeProps
+}: InputProps<number> & { fps: number; min?: number; max?: number } & Pick<
+    InputHTMLAttributes<HTMLInputElement>,
+    "disabled" | "onBlur" | "onFocus"
+  >) => {
+  const [valueStr, setValueStr] = useState(`${value}`);
+
+  // Follows outside changes unless a timecode or a frame out of range, which
+  // waits for the commit, is being typed
+  useEffect(() => {
+    if (!/^\d+$/.test(valueStr.trim())) return;
+    const typed = parseInt(valueStr);
+    if (typed === value || typed < min || typed > max) return;
+    setValueStr(`${value}`);
+  }, [value, valueStr, min, max]);
+
+  const commit = () => {
+    const parsed = parseTimecode(valueStr, fps);
+    if (parsed === null) {
+      setValueStr(`${value}`);
+      return;
+    }
+    const frame = Math.max(min, Math.min(max, parsed));
+    setValueStr(`${frame}`);
+    if (frame !== value) onChange(frame);
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="numeric"
+      className="timecode-input"
+      value={valueStr}
+      title={`${formatTimecode(value / fps, fps)}, type frames, 1.5s or mm:ss:ff`}
+      onChange={(evt) => {
+        setValueStr(evt.target.value);
+        if (!/^\d+$/.test(evt.target.value.trim())) return;
+        const frame = parseInt(evt.target.value);
+        if (frame >= min && frame <= max) onChange(frame);
+      }}
+      onKeyDown={(evt) => evt.key === "Enter" && commit()}
+      onBlur={(evt) => {
+        commit();
+        onBlur?.(evt);
+      }}
+      {...nativeProps}
+    />
+  );
+};
@@ -1,109 +1,139 @@
-import React, { Dispatch, SetStateAction } from "react";
-import { useState } from "react";
+import React, { SetStateAction } from "react";
+import { useEffect, useMemo, useState } from "react";
 
+import { BeatSync } from "./BeatSync";
+import { BulkActions } from "./BulkActions";
 import { Section } from "./components/Section";
+import { InterleaveGenerator } from "./InterleaveGenerator";
+import { IssueList } from "./IssueList";
+import {
+  compileChunks,
+  compileTimeline,
+  DEFAULT_FPS,
+  pendingKeyframes,
+  segmentDuration,
+  segmentKeyframes,
+  uniqueName,
+  vidDuration,
+} from "./lib";
+import { MoshPreview } from "./MoshPreview";
+import { MotionSuggestions } from "./MotionSuggestions";
 import { NumberInput } from "./NumberInput";
+import { PresetEditor } from "./PresetEditor";
+import {
+  BUILTIN_PRESETS,
+  DEFAULT_REPEAT_WEIGHTS,
+  defaultPresetParams,
+  exportPresets,
+  loadUserPresets,
+  parsePresets,
+  saveUserPresets,
+  STYLE_NOTES,
+} from "./presets";
+import { createRandom, Random, randomSeed } from "./random";
 import { RangePreview } from "./RangePreview";
 import { SelectInput } from "./SelectInput";
-import { Segment, Vid, SegmentPreset, AudioSegment } from "./types";
+import { formatSeconds, formatTimecode } from "./timecode";
+import { TimecodeInput } from "./TimecodeInput";
+import { TrackView } from "./TrackView";
+import {
+  AudioSegment,
+  IssueFix,
+  KeyframePolicy,
+  LengthTarget,
+  OutputFrameRate,
+  PlaybackMode,
+  Segment,
+  SegmentPreset,
+  TimelineIssue,
+  Vid,
+} from "./types";
+
+// Padding stops after this many extra rolls even if still short, e.g. when
+// the preset keeps skipping every segment
+const MAX_PAD_ROLLS = 100;
+
+const LENGTH_SLOTS = [15, 30, 180]; // seconds
 
 const clamp = (value: number, min: number, max: number) =>
   Math.max(min, Math.min(max, value));
 
 // Fisher-Yates shuffle algorithm for array randomization
-const shuffleVideos = (array: Vid[]): Vid[] => {
+const shuffleVideos = (array: Vid[], random: Random): Vid[] => {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 };
 
 // Fisher-Yates shuffle algorithm for segments
-const shuffleSegments = (array: Segment[]): Segment[] => {
+const shuffleSegments = (array: Segment[], random: Random): Segment[] => {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 };
 
-// Weighted repeat count generator - heavily favors 1, with larger numbers becoming increasingly rare
-const generateWeightedRepeat = (baseRepeat: number = 1, maxRepeat: number = 50): number => {
+// Weighted repeat count generator - picks 1, 2, 3-4, 5-7 or 8-12 with the given odds
+const generateWeightedRepeat = (
+  random: Random,
+  baseRepeat: number = 1,
+  weights: number[] = DEFAULT_REPEAT_WEIGHTS
+): number => {
   // Special handling for micro-stutter style which should have higher base repeats
   const isMicroStutter = baseRepeat > 10;
   
   if (isMicroStutter) {
     // For micro-stutter, still weight toward lower end but within 20-50 range
-    const random = Math.random();
-    if (random < 0.6) return Math.floor(20 + Math.random() * 11); // 20-30 (60% chance)
-    if (random < 0.85) return Math.floor(31 + Math.random() * 10); // 31-40 (25% chance)
-    return Math.floor(41 + Math.random() * 10); // 41-50 (15% chance)
+    const roll = random();
+    if (roll < 0.6) return Math.floor(20 + random() * 11); // 20-30 (60% chance)
+    if (roll < 0.85) return Math.floor(31 + random() * 10); // 31-40 (25% chance)
+    return Math.floor(41 + random() * 10); // 41-50 (15% chance)
   }
   
-  // For normal segments, EXTREMELY heavily weight toward 1
-  const random = Math.random();
-  
-  // 80% chance for repeat = 1 (massively increased)
-  if (random < 0.8) return 1;
-  
-  // 12% chance for repeat = 2
-  if (random < 0.92) return 2;
-  
-  // 5% chance for repeat = 3-4
-  if (random < 0.97) return Math.floor(3 + Math.random() * 2); // 3-4
+  // For normal segments, walk the buckets until the roll lands in one
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let roll = random() * total;
+  const bucket = weights.findIndex((weight) => (roll -= weight) < 0);
   
-  // 2% chance for repeat = 5-7
-  if (random < 0.99) return Math.floor(5 + Math.random() * 3); // 5-7
-  
-  // 1% chance for higher repeats (8-12, capped low)
-  return Math.floor(8 + Math.random() * 5); // 8-12
+  if (bucket <= 0) return 1;
+  if (bucket === 1) return 2;
+  if (bucket === 2) return Math.floor(3 + random() * 2); // 3-4
+  if (bucket === 3) return Math.floor(5 + random() * 3); // 5-7
+  return Math.floor(8 + random() * 5); // 8-12
 };
 
-// Probabilistic preset application across all videos
-const applyPresetWithProbabilities = (preset: SegmentPreset, vids: Vid[]): Segment[] => {
+// Probabilistic preset application across all videos, every roll comes from
+// `random` so the same seed gives the same timeline
+const generatePresetSegments = (
+  preset: SegmentPreset,
+  vids: Vid[],
+  random: Random
+): Segment[] => {
   const segments: Segment[] = [];
+  const { params } = preset;
+  const { style } = params;
   
   // Shuffle video order for unpredictable application patterns
-  const shuffledVids = shuffleVideos(vids);
-  
-  // Style-based probability weights for different preset characteristics
-  const styleWeights = {
-    quick: { shortSegments: 0.7, longSegments: 0.3, highRepeat: 0.2, lowRepeat: 0.8 },
-    echo: { shortSegments: 0.4, longSegments: 0.6, highRepeat: 0.8, lowRepeat: 0.2 },
-    stutter: { shortSegments: 0.9, longSegments: 0.1, highRepeat: 0.9, lowRepeat: 0.1 },
-    superchop: { shortSegments: 0.6, longSegments: 0.4, highRepeat: 0.95, lowRepeat: 0.05 },
-    microstutter: { shortSegments: 0.95, longSegments: 0.05, highRepeat: 0.98, lowRepeat: 0.02 }
-  };
-  
-  // Determine style based on preset name
-  let style = 'quick';
-  if (preset.name.toLowerCase().includes('echo') || preset.name.toLowerCase().includes('loop')) {
-    style = 'echo';
-  } else if (preset.name.toLowerCase().includes('micro') && preset.name.toLowerCase().includes('stutter')) {
-    style = 'microstutter';
-  } else if (preset.name.toLowerCase().includes('stutter') || preset.name.toLowerCase().includes('glitch')) {
-    style = 'stutter';
-  } else if (preset.name.toLowerCase().includes('superchop') || preset.name.toLowerCase().includes('chop')) {
-    style = 'superchop';
-  }
-  
-  const weights = styleWeights[style as keyof typeof styleWeights];
+  const shuffledVids = params.shuffle ? shuffleVideos(vids, random) : vids;
   
   // Distribute preset segments across all shuffled videos
   shuffledVids.forEach((vid, vidIndex) => {
     const maxFrames = vid.chunks.length;
     
     // Calculate video-specific adaptations
-    const videoDuration = maxFrames / 30; // Assuming 30 FPS
+    const videoDuration = vidDuration(vid);
     const isShortVideo = videoDuration < 3;
     const isLongVideo = videoDuration > 10;
     
     preset.segments.forEach((presetSegment, segIndex) => {
       // Probabilistic decisions based on style and video characteristics
-      const shouldInclude = Math.random() < (0.6 + vidIndex * 0.15); // Higher probability for later videos
+      const shouldInclude =
+        random() < params.includeChance + vidIndex * params.includeChancePerVid;
       
       if (shouldInclude) {
         // Adaptive scaling based on video length
@@ -112,7 +142,7 @@ const applyPresetWithProbabilities = (preset: SegmentPreset, vids: Vid[]): Segme
         if (isLongVideo) scaleFactor *= 1.2;
         
         // Style-influenced segment sizing
-        const isShortSegmentStyle = Math.random() < weights.shortSegments;
+        const isShortSegmentStyle = random() < params.shortSegments;
         const segmentSizeFactor = isShortSegmentStyle ? 0.5 : 1.5;
         
         // Calculate adapted segment bounds
@@ -129,18 +159,18 @@ const applyPresetWithProbabilities = (preset: SegmentPreset, vids: Vid[]): Segme
         ));
         
         // Weighted repeat calculation - heavily favors 1 with sliding scale
-        let adaptedRepeat = generateWeightedRepeat(presetSegment.repeat);
+        let adaptedRepeat = generateWeightedRepeat(random, presetSegment.repeat, params.repeatWeights);
         
         // Add stylistic variation based on video position
         if (vidIndex > 0) {
           // Later videos get slight variation but still respect weighted distribution
-          if (Math.random() < 0.3) { // Only 30% chance to modify
-            adaptedRepeat = generateWeightedRepeat(adaptedRepeat, 15); // Slightly higher cap for later videos
+          if (random() < 0.3) { // Only 30% chance to modify
+            adaptedRepeat = generateWeightedRepeat(random, adaptedRepeat, params.repeatWeights);
           }
           
           // Chance for frame offset shifts
-          if (Math.random() < 0.4) {
-            const offset = Math.floor(Math.random() * 10 - 5);
+          if (random() < 0.4) {
+            const offset = Math.floor(random() * 10 - 5);
             const shiftedFrom = clamp(adaptedFrom + offset, 0, maxFrames - 5);
             const shiftedTo = clamp(adaptedTo + offset, shiftedFrom + 3, maxFrames);
             
@@ -169,9 +199,9 @@ const applyPresetWithProbabilities = (preset: SegmentPreset, vids: Vid[]): Segme
         }
         
         // Probabilistic additional segments for complex styles
-        if (style === 'echo' && Math.random() < 0.3) {
+        if (style === 'echo' && random() < params.extraChance) {
           // Add echo segments with offset timing
-          const echoOffset = Math.floor(5 + Math.random() * 10);
+          const echoOffset = Math.floor(5 + random() * 10);
           const echoFrom = clamp(adaptedFrom + echoOffset, 0, maxFrames - 5);
           const echoTo = clamp(adaptedTo + echoOffset, echoFrom + 3, maxFrames);
           
@@ -179,53 +209,53 @@ const applyPresetWithProbabilities = (preset: SegmentPreset, vids: Vid[]): Segme
             name: vid.name,
             from: echoFrom,
             to: echoTo,
-            repeat: generateWeightedRepeat(1) // Use weighted repeat for echo segments
+            repeat: generateWeightedRepeat(random, 1, params.repeatWeights) // Use weighted repeat for echo segments
           });
         }
         
-        if (style === 'stutter' && Math.random() < 0.4) {
+        if (style === 'stutter' && random() < params.extraChance) {
           // Add micro-stutter segments
           const microLength = Math.max(2, Math.floor((adaptedTo - adaptedFrom) * 0.2));
-          const microFrom = adaptedFrom + Math.floor(Math.random() * (adaptedTo - adaptedFrom - microLength));
+          const microFrom = adaptedFrom + Math.floor(random() * (adaptedTo - adaptedFrom - microLength));
           const microTo = microFrom + microLength;
           
           segments.push({
             name: vid.name,
             from: microFrom,
             to: microTo,
-            repeat: generateWeightedRepeat(5, 12) // Weighted repeat for stutter, slightly higher range
+            repeat: generateWeightedRepeat(random, 5, params.repeatWeights) // Weighted repeat for stutter
           });
         }
         
-        if (style === 'superchop' && Math.random() < 0.4) {
+        if (style === 'superchop' && random() < params.extraChance) {
           // Add 1-2 additional micro segments only for superchop effect
-          const numMicros = Math.floor(1 + Math.random() * 2); // 1-2 additional micro segments
+          const numMicros = Math.floor(1 + random() * 2); // 1-2 additional micro segments
           
           for (let m = 0; m < numMicros; m++) {
-            const microLength = Math.max(1, Math.floor(1 + Math.random() * 2)); // 1-2 frame micro cuts
-            const microStart = adaptedFrom + Math.floor(Math.random() * (adaptedTo - adaptedFrom - microLength));
+            const microLength = Math.max(1, Math.floor(1 + random() * 2)); // 1-2 frame micro cuts
+            const microStart = adaptedFrom + Math.floor(random() * (adaptedTo - adaptedFrom - microLength));
             const microEnd = microStart + microLength;
             
             segments.push({
               name: vid.name,
               from: microStart,
               to: microEnd,
-              repeat: generateWeightedRepeat(2, 8) // Weighted repeat for superchop micro segments
+              repeat: generateWeightedRepeat(random, 2, params.repeatWeights) // Weighted repeat for superchop micro segments
             });
           }
         }
         
-        if (style === 'microstutter' && Math.random() < 0.8) {
+        if (style === 'microstutter' && random() < params.extraChance) {
           // Add mix of micro segments and longer expressive sections
-          const numSegments = Math.floor(2 + Math.random() * 4); // 2-5 additional segments
+          const numSegments = Math.floor(2 + random() * 4); // 2-5 additional segments
           
           for (let m = 0; m < numSegments; m++) {
-            const shouldBeLongSegment = Math.random() < 0.3; // 30% chance for longer segment
+            const shouldBeLongSegment = random() < 0.3; // 30% chance for longer segment
             
             if (shouldBeLongSegment) {
               // Create longer expressive segment (15-40 frames, single play)
-              const longLength = Math.floor(15 + Math.random() * 26); // 15-40 frames
-              const randomPosition = Math.floor(Math.random() * (maxFrames - longLength - 10));
+              const longLength = Math.floor(15 + random() * 26); // 15-40 frames
+              const randomPosition = Math.floor(random() * (maxFrames - longLength - 10));
               const longStart = Math.max(0, randomPosition);
               const longEnd = Math.min(longStart + longLength, maxFrames);
               
@@ -237,13 +267,13 @@ const applyPresetWithProbabilities = (preset: SegmentPreset, vids: Vid[]): Segme
               });
             } else {
               // Create micro-stutter segment (2-3 frames, high repeats)
-              const microLength = Math.floor(2 + Math.random() * 2); // 2-3 frames only
-              const randomPosition = Math.floor(Math.random() * (maxFrames - microLength - 10));
+              const microLength = Math.floor(2 + random() * 2); // 2-3 frames only
+              const randomPosition = Math.floor(random() * (maxFrames - microLength - 10));
               const microStart = Math.max(0, randomPosition);
               const microEnd = microStart + microLength;
               
               // Use weighted repeat for micro-stutter (will handle 20-50 range internally)
-              const microRepeat = generateWeightedRepeat(25, 50); // Base of 25 triggers micro-stutter logic
+              const microRepeat = generateWeightedRepeat(random, 25); // Base of 25 triggers micro-stutter logic
               
               segments.push({
                 name: vid.name,
@@ -259,92 +289,106 @@ const applyPresetWithProbabilities = (preset: SegmentPreset, vids: Vid[]): Segme
   });
   
   // Shuffle the final segments to interleave videos randomly
-  const shuffledSegments = shuffleSegments(segments);
-  
-  // Limit total duration to under 60 seconds (1800 frames at 30 FPS)
-  const maxTotalFrames = 1800;
-  let currentFrameCount = 0;
+  return params.shuffle ? shuffleSegments(segments, random) : segments;
+};
+
+const audioDuration = (url: string) =>
+  new Promise<number>((resolve, reject) => {
+    const audio = new Audio();
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => resolve(audio.duration);
+    audio.onerror = () => reject(audio.error);
+    audio.src = url;
+  });
+
+// Seconds a list of segments plays for, repeats included
+const timelineDuration = (
+  segments: Segment[],
+  vids: Vid[],
+  frameRate: OutputFrameRate
+) => compileTimeline(segments, vids, frameRate).duration / 1e6;
+
+// Cuts segments off at `max` seconds. The segment crossing the limit keeps the
+// repeats that fit and its last pass is shortened to the frames that still do
+const truncateSegments = (
+  segments: Segment[],
+  vids: Vid[],
+  frameRate: OutputFrameRate,
+  max: number
+) => {
+  let currentDuration = 0;
   const limitedSegments: Segment[] = [];
   
-  for (const segment of shuffledSegments) {
-    const segmentFrames = (segment.to - segment.from) * segment.repeat;
+  for (const segment of segments) {
+    const vid = vids.find(v => v.name === segment.name);
+    const singlePlayDuration = segmentDuration(segment, vid, frameRate);
+    const totalSegmentDuration = singlePlayDuration * segment.repeat;
     
-    if (currentFrameCount + segmentFrames <= maxTotalFrames) {
+    if (currentDuration + totalSegmentDuration <= max) {
       limitedSegments.push(segment);
-      currentFrameCount += segmentFrames;
-    } else {
-      // If adding this segment would exceed the limit, reduce its repeat count
-      const remainingFrames = maxTotalFrames - currentFrameCount;
-      const segmentLength = segment.to - segment.from;
-      const maxRepeats = Math.floor(remainingFrames / segmentLength);
-      
-      if (maxRepeats > 0) {
-        limitedSegments.push({
-          ...segment,
-          repeat: maxRepeats
-        });
-      }
-      break; // Stop adding more segments
+      currentDuration += totalSegmentDuration;
+      continue;
     }
-  }
-  
-  // Ensure first segment starts from 0 if any segments exist
-  if (limitedSegments.length > 0) {
-    limitedSegments[0].from = 0;
+    
+    const remainingDuration = max - currentDuration;
+    const maxRepeats = singlePlayDuration > 0
+      ? Math.floor(remainingDuration / singlePlayDuration)
+      : 0;
+    if (maxRepeats > 0) {
+      limitedSegments.push({ ...segment, repeat: maxRepeats });
+    }
+    
+    // Generated segments play forward, so the partial pass is a shorter range
+    const frameDuration = singlePlayDuration / (segment.to - segment.from);
+    const frames = frameDuration > 0
+      ? Math.floor((remainingDuration - maxRepeats * singlePlayDuration) / frameDuration + 1e-6)
+      : 0;
+    if (frames > 0) {
+      limitedSegments.push({ ...segment, to: segment.from + frames, repeat: 1 });
+    }
+    break; // Stop adding more segments
   }
   
   return limitedSegments;
 };
 
-// Function to save preset to code (generates code that can be copied into the presets array)
-const savePresetToCode = (preset: SegmentPreset) => {
-  const presetCode = `    {
-      name: "${preset.name}",
-      segments: [
-${preset.segments.map(s => `        { from: ${s.from}, to: ${s.to}, repeat: ${s.repeat} }`).join(',\n')}
-      ]
-    }`;
+// Generates a timeline from a preset and fits it to the target length
+const applyPresetWithProbabilities = (
+  preset: SegmentPreset,
+  vids: Vid[],
+  random: Random,
+  { min, max, fill }: LengthTarget,
+  frameRate: OutputFrameRate
+): Segment[] => {
+  const segments = generatePresetSegments(preset, vids, random);
+  if (segments.length === 0) return segments;
+  // The first segment has to start on the vid's key chunk, which counts
+  // towards the length so it is set before measuring
+  segments[0] = { ...segments[0], from: 0 };
   
-  const fullCode = `// Add this preset to the presets array in Timeline.tsx:
-${presetCode}`;
+  if (fill === "pad") {
+    // Later rolls of the same generator keep the padding in style
+    for (let attempt = 0; attempt < MAX_PAD_ROLLS; attempt++) {
+      if (timelineDuration(segments, vids, frameRate) >= min) break;
+      segments.push(...generatePresetSegments(preset, vids, random));
+    }
+  }
   
-  // Copy to clipboard if available
-  if (navigator.clipboard) {
-    navigator.clipboard.writeText(presetCode).then(() => {
-      console.log('✅ Preset code copied to clipboard!');
-      console.log('📋 Full preset object:');
-      console.log(presetCode);
-      
-      // Also log the complete preset for easy copying
-      console.log('📋 Copy this entire object and add it to the presets array:');
-      console.log(`{
-  name: "${preset.name}",
-  segments: [
-${preset.segments.map(s => `    { from: ${s.from}, to: ${s.to}, repeat: ${s.repeat} }`).join(',\n')}
-  ]
-}`);
-      
-      console.log('🎯 Instructions:');
-      console.log('1. Open src/Timeline.tsx in your code editor');
-      console.log('2. Find the line that says "// 💾 ADD NEW SAVED PRESETS HERE" (around line 316)');
-      console.log('3. Add a comma after the last preset');
-      console.log('4. Paste the preset object above');
-      console.log('5. Save the file - your preset will be permanent!');
-      
-      alert(`✅ Preset "${preset.name}" saved!\n\n1. Code copied to clipboard\n2. Check browser console for detailed instructions\n3. Add it to src/Timeline.tsx after the comment "💾 ADD NEW SAVED PRESETS HERE"\n\nThe preset will be available permanently after adding it to the code.`);
-    }).catch(() => {
-      showPresetCode(fullCode);
-    });
-  } else {
-    showPresetCode(fullCode);
+  if (fill === "scale") {
+    const duration = timelineDuration(segments, vids, frameRate);
+    const factor =
+      duration === 0 ? 1 : duration < min ? min / duration : duration > max ? max / duration : 1;
+    if (factor !== 1) {
+      segments.forEach((segment, i) => {
+        segments[i] = {
+          ...segment,
+          repeat: Math.max(1, Math.round(segment.repeat * factor)),
+        };
+      });
+    }
   }
-};
-
-// Fallback to show code in console and alert
-const showPresetCode = (code: string) => {
-  console.log('📋 Preset code (copy this):');
-  console.log(code);
-  alert(`📋 Preset code generated! Check the browser console to copy it.\n\nThen paste it into the presets array in src/Timeline.tsx`);
+  
+  return truncateSegments(segments, vids, frameRate, max);
 };
 
 export const Timeline = ({
@@ -352,89 +396,166 @@ export const Timeline = ({
   setSegments,
   vids,
   availableSamples = [],
+  config,
+  frameRate,
+  soundtrack,
+  onSoundtrack,
+  issues,
 }: {
   segments: Segment[];
-  setSegments: Dispatch<SetStateAction<Segment[]>>;
+  setSegments: (action: SetStateAction<Segment[]>, label?: string) => unknown;
   vids: Vid[];
   availableSamples?: { name: string; url: string; file?: File }[];
+  config: VideoDecoderConfig | null;
+  frameRate: OutputFrameRate;
+  soundtrack: File | null;
+  onSoundtrack: (soundtrack: File | null) => unknown;
+  issues: TimelineIssue[];
 }) => {
   const [preview, setPreview] = useState<null | { vid: Vid; i: number }>(null);
-  const [presets, setPresets] = useState<SegmentPreset[]>([
-    // 💾 ADD NEW SAVED PRESETS HERE (generated by "Save Preset to Code" button)
-    {
-      name: "7segmentOddTimings",
-      segments: [
-        { from: 0, to: 30, repeat: 1 },
-        { from: 29, to: 35, repeat: 30 },
-        { from: 34, to: 39, repeat: 1 },
-        { from: 37, to: 44, repeat: 15 },
-        { from: 40, to: 47, repeat: 1 },
-        { from: 46, to: 60, repeat: 5 },
-        { from: 58, to: 63, repeat: 30 }
-      ]
-    },
-    {
-      name: "basic",
-      segments: [
-        { from: 0, to: 72, repeat: 1 },
-        { from: 70, to: 77, repeat: 27 },
-        { from: 75, to: 85, repeat: 1 },
-        { from: 85, to: 89, repeat: 20 }
-      ]
-    },
-    {
-      name: "Quick Glitch",
-      segments: [
-        { from: 0, to: 30, repeat: 1 },
-        { from: 10, to: 25, repeat: 3 },
-        { from: 30, to: 60, repeat: 1 }
-      ]
-    },
-    {
-      name: "Echo Loop",
-      segments: [
-        { from: 0, to: 20, repeat: 1 },
-        { from: 15, to: 35, repeat: 5 },
-        { from: 20, to: 40, repeat: 2 }
-      ]
-    },
-    {
-      name: "Stutter Effect",
-      segments: [
-        { from: 0, to: 10, repeat: 1 },
-        { from: 5, to: 15, repeat: 8 },
-        { from: 10, to: 30, repeat: 1 }
-      ]
-    },
-    {
-      name: "Superchop",
-      segments: [
-        { from: 0, to: 3, repeat: 4 },     // Micro-cut intro
-        { from: 8, to: 25, repeat: 1 },    // Elaborate section
-        { from: 2, to: 5, repeat: 6 },     // Rapid fire micro
-        { from: 15, to: 35, repeat: 1 },   // Extended elaborate
-        { from: 10, to: 12, repeat: 8 },   // Ultra-micro chop
-        { from: 30, to: 50, repeat: 2 }    // Final expressive
-      ]
-    },
-    {
-      name: "Micro Stutter",
-      segments: [
-        { from: 0, to: 2, repeat: 35 },    // 2-frame micro at start
-        { from: 10, to: 13, repeat: 25 },  // 3-frame micro in middle
-        { from: 20, to: 22, repeat: 40 },  // 2-frame intense stutter
-        { from: 25, to: 45, repeat: 1 },   // Longer expressive section (single play)
-        { from: 50, to: 53, repeat: 45 },  // 3-frame heavy repeat
-        { from: 60, to: 85, repeat: 1 },   // Another longer section (single play)
-        { from: 90, to: 92, repeat: 30 },  // 2-frame stutter
-        { from: 100, to: 120, repeat: 1 }, // Final longer section (single play)
-        { from: 125, to: 127, repeat: 25 } // Final micro stutter
-      ]
-    }
-  ]);
+  const [userPresets, setUserPresets] = useState(loadUserPresets);
+  useEffect(() => saveUserPresets(userPresets), [userPresets]);
+  const presets = [...BUILTIN_PRESETS, ...userPresets];
   const [selectedPreset, setSelectedPreset] = useState<string>("");
+  const [seed, setSeed] = useState(randomSeed);
+  const [lengthTarget, setLengthTarget] = useState<LengthTarget>({
+    min: 0,
+    max: 60,
+    fill: "truncate",
+  });
+  const [lengthMode, setLengthMode] = useState<"range" | "exact" | "audio">("range");
+  const [lengthAudio, setLengthAudio] = useState("");
+
+  const fitToAudio = async (url: string) => {
+    setLengthAudio(url);
+    if (!url) return;
+    try {
+      const duration = await audioDuration(url);
+      setLengthTarget((prev) => ({ ...prev, min: duration, max: duration }));
+    } catch (error) {
+      console.error("❌ Failed to read audio length:", error);
+      alert("Failed to read the length of this audio");
+    }
+  };
   const [customPresetName, setCustomPresetName] = useState<string>("");
   const [showPresetInput, setShowPresetInput] = useState<boolean>(false);
+  const [view, setView] = useState<"table" | "track">("table");
+  const [selectedRows, setSelectedRows] = useState<number[]>([]);
+  const [anchor, setAnchor] = useState(0); // where shift-click ranges start
+  // Indices left over from a longer timeline, e.g. after an undo, are ignored
+  const selection = selectedRows.filter((i) => i < segments.length);
+
+  // Click selects a single row, ctrl/cmd-click toggles one and shift-click
+  // extends from the last clicked row
+  const selectRow = (i: number, evt: React.MouseEvent) => {
+    let next: number[];
+    if (evt.shiftKey) {
+      const [from, to] = [Math.min(anchor, i), Math.max(anchor, i)];
+      const range = Array.from({ length: to - from + 1 }, (_, k) => from + k);
+      next = [...new Set([...selection, ...range])];
+    } else if (evt.ctrlKey || evt.metaKey) {
+      next = selection.includes(i)
+        ? selection.filter((j) => j !== i)
+        : [...selection, i];
+    } else {
+      next = selection.length === 1 && selection[0] === i ? [] : [i];
+    }
+    setSelectedRows(next.sort((a, b) => a - b));
+    if (!evt.shiftKey) setAnchor(i);
+  };
+  const selected = presets.find(p => p.name === selectedPreset);
+  const isUserPreset = userPresets.some(p => p.name === selectedPreset);
+  const timelineSeeds = [
+    ...new Set(segments.flatMap((s) => (s.seed === undefined ? [] : [s.seed]))),
+  ];
+
+  // Fresh segments fill the slots of unlocked ones in order, locked segments
+  // stay where they are and anything left over is appended. The length target
+  // is what's left after the locked segments
+  const applyPreset = (preset: SegmentPreset, seed: number) => {
+    const locked = timelineDuration(
+      segments.filter((segment) => segment.locked),
+      vids,
+      frameRate
+    );
+    const fresh = applyPresetWithProbabilities(
+      preset,
+      vids,
+      createRandom(seed),
+      {
+        ...lengthTarget,
+        min: Math.max(0, lengthTarget.min - locked),
+        max: Math.max(0, lengthTarget.max - locked),
+      },
+      frameRate
+    ).map(
+      (segment) => ({ ...segment, seed })
+    );
+    const next: Segment[] = [];
+    segments.forEach((segment) => {
+      if (segment.locked) next.push(segment);
+      else if (fresh.length > 0) next.push(fresh.shift()!);
+    });
+    next.push(...fresh);
+    if (next.length > 0 && !next[0].locked) next[0] = { ...next[0], from: 0 };
+    setSegments(next, `Apply preset "${preset.name}" (seed ${seed})`);
+  };
+
+  // Imported and copied presets never overwrite, clashing names get a suffix
+  const addUserPresets = (added: SegmentPreset[]) => {
+    const taken = presets.map(p => p.name);
+    const named = added.map((preset) => {
+      const name = uniqueName(preset.name, taken);
+      taken.push(name);
+      return { ...preset, name };
+    });
+    setUserPresets([...userPresets, ...named]);
+    if (named.length === 1) setSelectedPreset(named[0].name);
+  };
+
+  const downloadPresets = (presets: SegmentPreset[], name: string) => {
+    const url = URL.createObjectURL(exportPresets(presets));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${name.replace(/[^\w-]+/g, "_")}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+  const compiled = useMemo(() => compileChunks(segments, vids), [segments, vids]);
+  const plan = useMemo(
+    () => compileTimeline(segments, vids, frameRate),
+    [segments, vids, frameRate]
+  );
+  // Output timecodes count frames at the output rate, or at the rate of the
+  // vid playing at that point when keeping source rates
+  const outputFps = (vid: Vid | undefined) =>
+    frameRate === "source" ? vid?.fps || DEFAULT_FPS : frameRate;
+  // Where segment i starts in the output, in seconds. Segments playing nothing
+  // start where the next frame does
+  const outputStart = (i: number) =>
+    i < segments.length && plan.segmentStarts[i] < plan.frames.length
+      ? plan.frames[plan.segmentStarts[i]].timestamp / 1e6
+      : plan.duration / 1e6;
+  // Rate of the whole output, null when vids playing at their source rates
+  // don't share one
+  const playedRates = new Set(
+    plan.frames.flatMap((frame) => (frame.source ? [frame.source.vid.fps] : []))
+  );
+  const totalFps =
+    frameRate !== "source"
+      ? frameRate
+      : playedRates.size <= 1
+        ? [...playedRates][0] ?? DEFAULT_FPS
+        : null;
+  const applyFix = ({ segment: i }: TimelineIssue, { label, segment }: IssueFix) =>
+    setSegments(
+      segment
+        ? segments.map((s, j) => (j === i ? segment : s))
+        : segments.filter((_, j) => j !== i),
+      `Segment ${i + 1}: ${label}`
+    );
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+  const warningCount = issues.length - errorCount;
   return (
     <Section name="Timeline">
       {vids.length === 0 ? (
@@ -450,21 +571,39 @@ export const Timeline = ({
                 onChange={(e) => setSelectedPreset(e.target.value)}
               >
                 <option value="">Select a preset...</option>
-                {presets.map((preset, i) => (
-                  <option key={i} value={preset.name}>{preset.name}</option>
-                ))}
+                <optgroup label="Built-in">
+                  {BUILTIN_PRESETS.map((preset) => (
+                    <option key={preset.name} value={preset.name}>{preset.name}</option>
+                  ))}
+                </optgroup>
+                {userPresets.length > 0 && (
+                  <optgroup label="My presets">
+                    {userPresets.map((preset) => (
+                      <option key={preset.name} value={preset.name}>{preset.name}</option>
+                    ))}
+                  </optgroup>
+                )}
               </select>
               <button 
+                onClick={() => applyPreset(selected!, seed)}
+                disabled={!selected}
+              >
+                Apply Preset
+              </button>
+              <label className="preset-seed">
+                <span>🌱 Seed</span>
+                <NumberInput value={seed} onChange={setSeed} min={0} />
+              </label>
+              <button
                 onClick={() => {
-                  const preset = presets.find(p => p.name === selectedPreset);
-                  if (preset && vids.length > 0) {
-                    const newSegments = applyPresetWithProbabilities(preset, vids);
-                    setSegments(newSegments);
-                  }
+                  const next = randomSeed();
+                  setSeed(next);
+                  applyPreset(selected!, next);
                 }}
-                disabled={!selectedPreset}
+                disabled={!selected}
+                title="Apply with a new seed, locked segments stay"
               >
-                Apply Preset
+                🎲 Re-roll
               </button>
               <button onClick={() => setShowPresetInput(!showPresetInput)}>
                 {showPresetInput ? "Cancel" : "💾 Save Current as Preset"}
@@ -475,22 +614,173 @@ export const Timeline = ({
                   <span className="preset-count">
                     📊 Current: {segments.length} segment{segments.length !== 1 ? 's' : ''}
                   </span>
-                  <button 
-                    onClick={() => {
-                      console.log('📍 Current preset location in code:');
-                      console.log('File: src/Timeline.tsx');
-                      console.log('Line: ~316 (look for "// 💾 ADD NEW SAVED PRESETS HERE")');
-                      console.log('Add new presets after this comment in the presets array');
-                      alert('📍 Location info logged to console!\n\nLook for the comment "💾 ADD NEW SAVED PRESETS HERE" in src/Timeline.tsx around line 316');
-                    }}
-                    className="preset-location-btn"
-                    title="Show where to add presets in code"
-                  >
-                    📍 Show Code Location
-                  </button>
+                  {timelineSeeds.map((timelineSeed) => (
+                    <button
+                      key={timelineSeed}
+                      onClick={() => setSeed(timelineSeed)}
+                      disabled={timelineSeed === seed}
+                      title="Use the seed these segments were generated with"
+                    >
+                      🌱 {timelineSeed}
+                    </button>
+                  ))}
                 </div>
               )}
             </div>
+
+            <div className="preset-controls preset-length">
+              <span>⏱ Length</span>
+              <select
+                value={lengthMode}
+                onChange={(e) => {
+                  const mode = e.target.value as typeof lengthMode;
+                  setLengthMode(mode);
+                  if (mode === "exact") {
+                    setLengthTarget({ ...lengthTarget, min: lengthTarget.max });
+                  } else if (mode === "audio") {
+                    fitToAudio(lengthAudio);
+                  }
+                }}
+              >
+                <option value="range">Between</option>
+                <option value="exact">Exactly</option>
+                <option value="audio">Fit to audio</option>
+              </select>
+              {lengthMode === "range" && (
+                <>
+                  <NumberInput
+                    value={lengthTarget.min}
+                    onChange={(min) => setLengthTarget({ ...lengthTarget, min })}
+                    min={0}
+                    max={lengthTarget.max}
+                  />
+                  <span>–</span>
+                  <NumberInput
+                    value={lengthTarget.max}
+                    onChange={(max) => setLengthTarget({ ...lengthTarget, max })}
+                    min={Math.max(1, lengthTarget.min)}
+                  />
+                  <span>s</span>
+                </>
+              )}
+              {lengthMode === "exact" && (
+                <>
+                  <NumberInput
+                    value={lengthTarget.max}
+                    onChange={(max) => setLengthTarget({ ...lengthTarget, min: max, max })}
+                    min={1}
+                  />
+                  <span>s</span>
+                  {LENGTH_SLOTS.map((slot) => (
+                    <button
+                      key={slot}
+                      onClick={() => setLengthTarget({ ...lengthTarget, min: slot, max: slot })}
+                      disabled={lengthTarget.max === slot}
+                    >
+                      {slot < 60 ? `${slot}s` : `${slot / 60}m`}
+                    </button>
+                  ))}
+                </>
+              )}
+              {lengthMode === "audio" && (
+                <>
+                  <select value={lengthAudio} onChange={(e) => fitToAudio(e.target.value)}>
+                    <option value="">Select audio...</option>
+                    {availableSamples.map((sample) => (
+                      <option key={sample.url} value={sample.url}>
+                        {sample.name}
+                      </option>
+                    ))}
+                  </select>
+                  {lengthAudio && <span>{lengthTarget.max.toFixed(1)}s</span>}
+                </>
+              )}
+              <select
+                value={lengthTarget.fill}
+                onChange={(e) =>
+                  setLengthTarget({
+                    ...lengthTarget,
+                    fill: e.target.value as LengthTarget["fill"],
+                  })
+                }
+                title="What to do when the generated timeline is too short"
+              >
+                <option value="truncate">Truncate only</option>
+                <option value="scale">Scale repeats</option>
+                <option value="pad">Pad with extra segments</option>
+              </select>
+            </div>
+
+            <div className="preset-controls">
+              <button
+                onClick={() => {
+                  const preset = presets.find(p => p.name === selectedPreset)!;
+                  addUserPresets([{ ...preset, name: `${preset.name} copy` }]);
+                }}
+                disabled={!selectedPreset}
+              >
+                Duplicate
+              </button>
+              <button
+                onClick={() => {
+                  const name = prompt("Rename preset", selectedPreset)?.trim();
+                  if (!name || name === selectedPreset) return;
+                  if (presets.some(p => p.name === name)) {
+                    alert(`A preset named "${name}" already exists`);
+                    return;
+                  }
+                  setUserPresets(userPresets.map(p => p.name === selectedPreset ? { ...p, name } : p));
+                  setSelectedPreset(name);
+                }}
+                disabled={!isUserPreset}
+              >
+                Rename
+              </button>
+              <button
+                onClick={() => {
+                  if (!confirm(`Delete preset "${selectedPreset}"?`)) return;
+                  setUserPresets(userPresets.filter(p => p.name !== selectedPreset));
+                  setSelectedPreset("");
+                }}
+                disabled={!isUserPreset}
+              >
+                Delete
+              </button>
+              <button
+                onClick={() =>
+                  downloadPresets(presets.filter(p => p.name === selectedPreset), selectedPreset)
+                }
+                disabled={!selectedPreset}
+              >
+                ⬇ Export
+              </button>
+              <button
+                onClick={() => downloadPresets(userPresets, "presets")}
+                disabled={userPresets.length === 0}
+              >
+                ⬇ Export mine
+              </button>
+              <label className="preset-import">
+                <span>⬆ Import:</span>
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={async (evt) => {
+                    const file = evt.target.files?.[0];
+                    evt.target.value = "";
+                    if (!file) return;
+                    try {
+                      const imported = parsePresets(await file.text());
+                      addUserPresets(imported);
+                      console.log(`📥 Imported ${imported.length} presets from ${file.name}`);
+                    } catch (error) {
+                      console.error("❌ Failed to import presets:", error);
+                      alert(`Failed to import presets: ${error instanceof Error ? error.message : error}`);
+                    }
+                  }}
+                />
+              </label>
+            </div>
             
             {showPresetInput && (
               <div className="preset-input">
@@ -503,40 +793,28 @@ export const Timeline = ({
                 <button 
                   onClick={() => {
                     if (customPresetName.trim() && segments.length > 0) {
-                      const newPreset: SegmentPreset = {
+                      addUserPresets([{
                         name: customPresetName.trim(),
                         segments: segments.map(s => ({
                           from: s.from,
                           to: s.to,
                           repeat: s.repeat
-                        }))
-                      };
-                      
-                      // Add to current session
-                      setPresets([...presets, newPreset]);
+                        })),
+                        params: selected?.params ?? defaultPresetParams("quick")
+                      }]);
                       setCustomPresetName("");
                       setShowPresetInput(false);
-                      
-                      // Generate code for permanent saving
-                      savePresetToCode(newPreset);
                     }
                   }}
                   disabled={!customPresetName.trim() || segments.length === 0}
                 >
-                  💾 Save Preset to Code
+                  💾 Save Preset
                 </button>
-                
-                <div className="preset-save-help">
-                  <small>
-                    💡 This will copy preset code to your clipboard and console. 
-                    Add it to the presets array in <code>src/Timeline.tsx</code> to make it permanent!
-                  </small>
-                </div>
               </div>
             )}
             
             {/* Preset Preview Table */}
-            {selectedPreset && (
+            {selected && (
               <div className="preset-preview">
                 <h4>Preview: {selectedPreset}</h4>
                 <p className="preset-description">
@@ -548,8 +826,23 @@ export const Timeline = ({
                   <li>🔀 <strong>Video order shuffling</strong> - Video processing order randomized each time</li>
                   <li>🌀 <strong>Segment interleaving</strong> - Final segments shuffled to mix videos randomly</li>
                   <li>🎨 <strong>Style-based weighting</strong> - Segment characteristics match preset style</li>
-                  <li>⚡ <strong>Dynamic variations</strong> - Each application creates unique combinations</li>
+                  <li>⚡ <strong>Dynamic variations</strong> - Each seed creates unique combinations</li>
                 </ul>
+
+                <PresetEditor
+                  params={selected!.params}
+                  onChange={
+                    isUserPreset
+                      ? (params) =>
+                          setUserPresets(userPresets.map(p => p.name === selectedPreset ? { ...p, params } : p))
+                      : undefined
+                  }
+                />
+                {!isUserPreset && (
+                  <p className="preset-note">
+                    <em>Built-in presets are read-only, duplicate one to tune it.</em>
+                  </p>
+                )}
                 
                 <table className="preset-table">
                   <thead>
@@ -561,41 +854,85 @@ export const Timeline = ({
                     </tr>
                   </thead>
                   <tbody>
-                    {presets.find(p => p.name === selectedPreset)?.segments.map((segment, i) => {
-                      let styleNote = "Standard timing";
-                      const presetName = selectedPreset.toLowerCase();
-                      if (presetName.includes('echo') || presetName.includes('loop')) {
-                        styleNote = "Long segments, high repeats, echo effects";
-                      } else if (presetName.includes('micro') && presetName.includes('stutter')) {
-                        styleNote = "Mix of 2-3 frame micro-stutters (20-50 repeats) + longer expressive sections (single play)";
-                      } else if (presetName.includes('stutter') || presetName.includes('glitch')) {
-                        styleNote = "Short segments, micro-stutters, high repeats";
-                      } else if (presetName.includes('superchop') || presetName.includes('chop')) {
-                        styleNote = "Rapid micro-cuts + elaborate expressive sections";
-                      } else {
-                        styleNote = "Balanced segments, moderate repeats";
-                      }
-                      
-                      return (
-                        <tr key={i}>
-                          <td>{segment.from}</td>
-                          <td>{segment.to}</td>
-                          <td>{segment.repeat}</td>
-                          <td className="style-note">{styleNote}</td>
-                        </tr>
-                      );
-                    })}
+                    {selected!.segments.map((segment, i) => (
+                      <tr key={i}>
+                        <td>{segment.from}</td>
+                        <td>{segment.to}</td>
+                        <td>{segment.repeat}</td>
+                        <td className="style-note">{STYLE_NOTES[selected!.params.style]}</td>
+                      </tr>
+                    ))}
                   </tbody>
                 </table>
                 
                 <p className="preset-note">
-                  <em>Note: Each "Apply Preset" will create different results due to probabilistic generation!</em>
+                  <em>Note: The same seed always gives the same timeline, re-roll for a different one. Locked segments are kept in place.</em>
                 </p>
               </div>
             )}
           </div>
+          <BeatSync
+            setSegments={setSegments}
+            vids={vids}
+            frameRate={frameRate}
+            soundtrack={soundtrack}
+            onSoundtrack={onSoundtrack}
+          />
+          <InterleaveGenerator
+            segments={segments}
+            setSegments={setSegments}
+            vids={vids}
+            config={config}
+            frameRate={frameRate}
+          />
+          <MotionSuggestions
+            segments={segments}
+            setSegments={setSegments}
+            vids={vids}
+          />
+          <div className="timeline-views">
+            <button disabled={view === "table"} onClick={() => setView("table")}>
+              ☰ Table
+            </button>
+            <button disabled={view === "track"} onClick={() => setView("track")}>
+              ▭ Track
+            </button>
+          </div>
+          {issues.length > 0 && (
+            <p className="render-mode-note">
+              {errorCount > 0 &&
+                `⛔ ${errorCount} problem${errorCount !== 1 ? "s" : ""} blocking the render `}
+              {warningCount > 0 &&
+                `⚠️ ${warningCount} warning${warningCount !== 1 ? "s" : ""} `}
+              {view === "track" && "(fixes are in the table view)"}
+            </p>
+          )}
+          {segments.length > 0 && (
+            <p className="timeline-total">
+              Total: {plan.frames.length} frames ·{" "}
+              {totalFps !== null &&
+                `${formatTimecode(plan.duration / 1e6, totalFps)} · `}
+              {formatSeconds(plan.duration / 1e6)}
+            </p>
+          )}
+          {view === "table" && selection.length > 0 && (
+            <BulkActions
+              segments={segments}
+              setSegments={setSegments}
+              selection={selection}
+              setSelection={setSelectedRows}
+              vids={vids}
+              availableSamples={availableSamples}
+            />
+          )}
           {segments.length === 0 ? (
             <p>No segments defined</p>
+          ) : view === "track" ? (
+            <TrackView
+              segments={segments}
+              setSegments={setSegments}
+              vids={vids}
+            />
           ) : (
             <div className="segments">
               <div className="segment-header">
@@ -604,63 +941,95 @@ export const Timeline = ({
                 <span>To</span>
                 <span>Repeat</span>
                 <span>Audio</span>
+                <span>Playback</span>
+                <span>Keyframes</span>
                 <span>Actions</span>
               </div>
               {segments.map((s, i) => {
-                const getVid = () => vids.find((vid) => vid.name === s.name)!;
+                // Missing when the vid was removed, see the issues below the row
+                const vid = vids.find((vid) => vid.name === s.name);
+                const rowIssues = issues.filter((issue) => issue.segment === i);
+                const sourceFps = vid?.fps || DEFAULT_FPS;
+                const [start, end] = [outputStart(i), outputStart(i + 1)];
+                const fps = outputFps(vid);
+                const updateSegment = (patch: Partial<Segment>, label: string) =>
+                  setSegments(
+                    segments.map((segment, j) =>
+                      j === i ? { ...segment, ...patch } : segment
+                    ),
+                    `Segment ${i + 1}: ${label}`
+                  );
+
                 const swap = (j: number, k: number) => {
-                  [segments[j], segments[k]] = [segments[k], segments[j]];
-                  segments[0].from = 0;
-                  setSegments([...segments]);
+                  const next = [...segments];
+                  [next[j], next[k]] = [next[k], next[j]];
+                  next[0] = { ...next[0], from: 0 };
+                  setSegments(next, `Move segment ${j + 1}`);
                 };
 
-                const updateAudio = (audio: AudioSegment | undefined) => {
-                  s.audio = audio;
-                  setSegments([...segments]);
-                };
+                const updateAudio = (audio: AudioSegment | undefined) =>
+                  updateSegment({ audio }, "audio");
+
+                const keys = segmentKeyframes(compiled, i);
+                const waitingForKeyframe = pendingKeyframes([s], vids).length > 0;
 
                 return (
                   <React.Fragment key={i}>
                     <SelectInput
                       value={s.name}
                       onChange={(name) => {
-                        s.name = name;
-                        s.to = clamp(s.to, -Infinity, getVid().chunks.length);
-                        s.from = clamp(s.from, 0, s.to - 1);
-                        setSegments([...segments]);
+                        const vid = vids.find((vid) => vid.name === name)!;
+                        const to = clamp(s.to, -Infinity, vid.chunks.length);
+                        updateSegment(
+                          { name, to, from: clamp(s.from, 0, to - 1) },
+                          "video"
+                        );
                       }}
                       options={vids.map((vid) => vid.name)}
                     />
-                    <NumberInput
-                      value={s.from}
-                      onChange={(from) => {
-                        s.from = from;
-                        setSegments([...segments]);
-                        setPreview({ vid: getVid(), i: from });
-                      }}
-                      min={0}
-                      max={s.to - 1}
-                      disabled={i === 0}
-                      onFocus={() => setPreview({ vid: getVid(), i: s.from })}
-                      onBlur={() => setPreview(null)}
-                    />
-                    <NumberInput
-                      value={s.to}
-                      onChange={(to) => {
-                        s.to = to;
-                        setSegments([...segments]);
-                        setPreview({ vid: getVid(), i: to });
-                      }}
-                      min={s.from + 1}
-                      max={getVid().chunks.length}
-                      onFocus={() => setPreview({ vid: getVid(), i: s.to })}
-                      onBlur={() => setPreview(null)}
-                    />
+                    {s.hold !== undefined ? (
+                      <>
+                        <span className="hold-label" title="Freezes the last decoded frame">
+                          ⏸ Hold
+                        </span>
+                        <NumberInput
+                          value={s.hold}
+                          onChange={(hold) => updateSegment({ hold }, "hold")}
+                          min={1}
+                        />
+                      </>
+                    ) : (
+                      <>
+                        <TimecodeInput
+                          value={s.from}
+                          onChange={(from) => {
+                            updateSegment({ from }, "from");
+                            if (vid) setPreview({ vid, i: from });
+                          }}
+                          fps={sourceFps}
+                          max={s.to - 1}
+                          disabled={i === 0}
+                          onFocus={() => vid && setPreview({ vid, i: s.from })}
+                          onBlur={() => setPreview(null)}
+                        />
+                        <TimecodeInput
+                          value={s.to}
+                          onChange={(to) => {
+                            updateSegment({ to }, "to");
+                            if (vid) setPreview({ vid, i: to });
+                          }}
+                          fps={sourceFps}
+                          min={s.from + 1}
+                          max={vid?.chunks.length}
+                          onFocus={() => vid && setPreview({ vid, i: s.to })}
+                          onBlur={() => setPreview(null)}
+                        />
+                      </>
+                    )}
                     <NumberInput
                       value={s.repeat}
                       onChange={(repeat) => {
-                        s.repeat = repeat;
-                        setSegments([...segments]);
+                        updateSegment({ repeat }, "repeat");
                       }}
                       min={1}
                     />
@@ -765,7 +1134,113 @@ export const Timeline = ({
                         />
                       )}
                     </div>
+                    {s.hold !== undefined ? (
+                      <>
+                        <span />
+                        <span />
+                      </>
+                    ) : (
+                      <>
+                        <div className="playback-controls">
+                          <select
+                            value={s.playback?.mode ?? "forward"}
+                            onChange={(e) => {
+                              const mode = e.target.value as PlaybackMode["mode"];
+                              const playback: PlaybackMode =
+                                mode === "skip"
+                                  ? { mode, step: 2 }
+                                  : mode === "pattern"
+                                    ? { mode, pattern: [0, 1, 1, 2, 3, 3] }
+                                    : { mode };
+                              updateSegment(
+                                { playback: mode === "forward" ? undefined : playback },
+                                "playback"
+                              );
+                            }}
+                          >
+                            <option value="forward">Forward</option>
+                            <option value="reverse">Reverse</option>
+                            <option value="pingpong">Ping-pong</option>
+                            <option value="skip">Every Nth</option>
+                            <option value="pattern">Pattern</option>
+                          </select>
+                          {s.playback?.mode === "skip" && (
+                            <NumberInput
+                              value={s.playback.step}
+                              onChange={(step) =>
+                                updateSegment(
+                                  { playback: { mode: "skip", step } },
+                                  "skip step"
+                                )
+                              }
+                              min={1}
+                            />
+                          )}
+                          {s.playback?.mode === "pattern" && (
+                            <input
+                              key={s.playback.pattern.join(",")}
+                              type="text"
+                              defaultValue={s.playback.pattern.join(",")}
+                              title="Frame offsets from the segment start, repeated along the range"
+                              onBlur={(e) => {
+                                const pattern = e.target.value
+                                  .split(/[\s,]+/)
+                                  .map((offset) => parseInt(offset))
+                                  .filter((offset) => offset >= 0);
+                                if (pattern.length === 0) return;
+                                updateSegment(
+                                  { playback: { mode: "pattern", pattern } },
+                                  "pattern"
+                                );
+                              }}
+                            />
+                          )}
+                        </div>
+                        <div className="keyframe-controls">
+                          <select
+                            value={s.keyframes ?? "keep"}
+                            onChange={(e) =>
+                              updateSegment(
+                                { keyframes: e.target.value as KeyframePolicy },
+                                "keyframes"
+                              )
+                            }
+                          >
+                            <option value="keep">Keep</option>
+                            <option value="drop">Drop</option>
+                            <option value="force">Force</option>
+                          </select>
+                          <span
+                            className="keyframe-count"
+                            title={
+                              waitingForKeyframe
+                                ? "Forced keyframe not re-encoded yet"
+                                : keys.length > 0
+                                  ? `Key chunks at output frames ${keys.join(", ")}`
+                                  : "No key chunks, this segment moshes"
+                            }
+                          >
+                            {waitingForKeyframe ? "⏳" : `🔑${keys.length}`}
+                          </span>
+                        </div>
+                      </>
+                    )}
                     <div className="segment-actions">
+                      <button
+                        className={`segment-select${selection.includes(i) ? " selected" : ""}`}
+                        onClick={(evt) => selectRow(i, evt)}
+                        title="Select, shift-click for a range, ctrl-click to add"
+                      >
+                        {i + 1}
+                      </button>
+                      <button
+                        onClick={() =>
+                          updateSegment({ locked: !s.locked || undefined }, s.locked ? "unlock" : "lock")
+                        }
+                        title={s.locked ? "Unlock" : "Keep this segment when re-rolling a preset"}
+                      >
+                        {s.locked ? "🔒" : "🔓"}
+                      </button>
                       <button disabled={i === 0} onClick={() => swap(i, i - 1)}>
                         ↑
                       </button>
@@ -777,12 +1252,29 @@ export const Timeline = ({
                       </button>
                       <button
                         onClick={() => {
-                          setSegments(segments.filter((_, j) => i !== j));
+                          setSegments(
+                            segments.filter((_, j) => i !== j),
+                            `Remove segment ${i + 1}`
+                          );
                         }}
                       >
                         ✕
                       </button>
                     </div>
+                    <small className="segment-timecode">
+                      ⏱ {formatTimecode(start, fps)} → {formatTimecode(end, fps)} (
+                      {formatSeconds(start)} → {formatSeconds(end)}, frames{" "}
+                      {plan.segmentStarts[i]}–{plan.segmentStarts[i + 1] ?? plan.frames.length})
+                      {vid && s.hold === undefined && (
+                        <>
+                          {" "}· source {formatTimecode(s.from / sourceFps, sourceFps)} →{" "}
+                          {formatTimecode(s.to / sourceFps, sourceFps)}
+                        </>
+                      )}
+                    </small>
+                    {rowIssues.length > 0 && (
+                      <IssueList issues={rowIssues} onFix={applyFix} />
+                    )}
                   </React.Fragment>
                 );
               })}
@@ -798,11 +1290,40 @@ export const Timeline = ({
                   to: vids[0].chunks.length,
                   repeat: 1,
                 },
-              ]);
+              ], "Add segment");
             }}
           >
             Add segment
           </button>
+          <button
+            onClick={() => {
+              setSegments([
+                ...segments,
+                {
+                  name: segments[segments.length - 1]?.name ?? vids[0]!.name,
+                  from: 0,
+                  to: 0,
+                  repeat: 1,
+                  hold: 12,
+                },
+              ], "Add hold");
+            }}
+            disabled={segments.length === 0}
+            title="Freeze the last frame of the timeline so far"
+          >
+            Add hold
+          </button>
+          {segments.length > 0 && (
+            <details className="mosh-preview-details">
+              <summary>Live preview</summary>
+              <MoshPreview
+                segments={segments}
+                vids={vids}
+                config={config}
+                frameRate={frameRate}
+              />
+            </details>
+          )}
         </>
       )}
       {preview && <RangePreview vid={preview.vid} i={preview.i} />}
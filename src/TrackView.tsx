@@ -0,0 +1,194 @@
+import {
+  PointerEvent,
+  SetStateAction,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+
+import { compileChunks, segmentFrames, segmentKeyframes } from "./lib";
+import { getThumbnail } from "./thumbnails";
+import { Segment, Vid } from "./types";
+
+const THUMBNAIL_WIDTH = 64;
+const MAX_THUMBNAILS = 8;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+const Thumbnail = ({ vid, i }: { vid: Vid; i: number }) => {
+  const [src, setSrc] = useState("");
+  useEffect(() => {
+    let cancelled = false;
+    getThumbnail(vid, i).then((thumbnail) => {
+      if (!cancelled) setSrc(thumbnail);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [vid, i]);
+  return src ? <img src={src} alt="" draggable={false} /> : <span />;
+};
+
+// Horizontal view of the timeline where each block is as wide as the frames
+// it plays, i.e. (to - from) * repeat for forward playback, or hold * repeat
+export const TrackView = ({
+  segments,
+  setSegments,
+  vids,
+}: {
+  segments: Segment[];
+  setSegments: (action: SetStateAction<Segment[]>, label?: string) => unknown;
+  vids: Vid[];
+}) => {
+  const [zoom, setZoom] = useState(2); // px per frame
+  const [dragged, setDragged] = useState<number | null>(null);
+  const compiled = useMemo(() => compileChunks(segments, vids), [segments, vids]);
+
+  const move = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...segments];
+    const [segment] = next.splice(from, 1);
+    next.splice(to, 0, segment);
+    next[0] = { ...next[0], from: 0 };
+    setSegments(next, `Move segment ${from + 1}`);
+  };
+
+  const startResize = (
+    evt: PointerEvent,
+    i: number,
+    edge: "from" | "to"
+  ) => {
+    evt.preventDefault();
+    evt.stopPropagation();
+    const segment = segments[i];
+    const vid = vids.find((vid) => vid.name === segment.name);
+    if (!vid) return;
+    const startX = evt.clientX;
+    const onMove = (moveEvt: globalThis.PointerEvent) => {
+      // Every frame added to the range widens the block by `repeat` frames
+      const delta = Math.round(
+        (moveEvt.clientX - startX) / (zoom * segment.repeat)
+      );
+      const patch =
+        edge === "from"
+          ? { from: clamp(segment.from + delta, 0, segment.to - 1) }
+          : {
+              to: clamp(segment.to + delta, segment.from + 1, vid.chunks.length),
+            };
+      setSegments(
+        (prev) => prev.map((s, j) => (j === i ? { ...s, ...patch } : s)),
+        `Segment ${i + 1}: ${edge}`
+      );
+    };
+    const onUp = () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+  };
+
+  return (
+    <div className="track-view">
+      <label className="track-zoom">
+        <span>Zoom</span>
+        <input
+          type="range"
+          min={0.25}
+          max={20}
+          step={0.25}
+          value={zoom}
+          onChange={(e) => setZoom(parseFloat(e.target.value))}
+        />
+        <span>{zoom}px/frame</span>
+      </label>
+      <div className="track">
+        {segments.map((segment, i) => {
+          const vid = vids.find((vid) => vid.name === segment.name);
+          const length = segment.to - segment.from;
+          const played =
+            segment.hold ?? (vid ? segmentFrames(segment, vid).length : length);
+          const width = Math.max(8, played * segment.repeat * zoom);
+          const count = clamp(
+            Math.floor(width / THUMBNAIL_WIDTH),
+            1,
+            Math.min(MAX_THUMBNAILS, length)
+          );
+          const start = compiled.segmentStarts[i];
+          const compiledLength =
+            (compiled.segmentStarts[i + 1] ?? compiled.chunks.length) - start;
+          return (
+            <div
+              key={i}
+              className={`track-block${segment.hold !== undefined ? " hold" : ""}${
+                dragged === i ? " dragging" : ""
+              }`}
+              style={{ width }}
+              title={
+                segment.hold !== undefined
+                  ? `Hold ${segment.hold} frames ×${segment.repeat}`
+                  : `${segment.name} ${segment.from}→${segment.to} ×${segment.repeat}`
+              }
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                setDragged(i);
+              }}
+              onDragEnd={() => setDragged(null)}
+              onDragOver={(e) => {
+                if (dragged === null) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragged !== null) move(dragged, i);
+                setDragged(null);
+              }}
+            >
+              <div className="track-thumbnails">
+                {vid &&
+                  segment.hold === undefined &&
+                  Array.from({ length: count }, (_, k) => (
+                    <Thumbnail
+                      key={k}
+                      vid={vid}
+                      i={segment.from + Math.floor((k * length) / count)}
+                    />
+                  ))}
+              </div>
+              {segmentKeyframes(compiled, i).map((index) => (
+                <div
+                  key={index}
+                  className="track-keyframe"
+                  style={{ left: ((index - start) / compiledLength) * width }}
+                />
+              ))}
+              <span className="track-label">
+                {segment.hold !== undefined ? "⏸ hold" : segment.name}
+                {segment.repeat > 1 && (
+                  <strong className="track-repeat">×{segment.repeat}</strong>
+                )}
+              </span>
+              {segment.hold === undefined && (
+                <>
+                  {i > 0 && (
+                    <div
+                      className="track-handle track-handle-from"
+                      onPointerDown={(e) => startResize(e, i, "from")}
+                    />
+                  )}
+                  <div
+                    className="track-handle track-handle-to"
+                    onPointerDown={(e) => startResize(e, i, "to")}
+                  />
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
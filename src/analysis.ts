@@ -0,0 +1,160 @@
+import { Segment, Vid } from "./types";
+
+// Frames are shrunk this much before comparing them for scene cuts
+const CUT_WIDTH = 32;
+const CUT_HEIGHT = 18;
+// A frame starts a new scene when it differs from the one before by this many
+// times the typical difference, and at least by MIN_CUT_DIFFERENCE
+const CUT_FACTOR = 4;
+const MIN_CUT_DIFFERENCE = 0.08; // mean luma change, 0 to 1
+
+// Suggested bases are calm, stutters are busy, both relative to the vid
+const CALM_QUANTILE = 0.3;
+const BUSY_QUANTILE = 0.8;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+const levels = new WeakMap<EncodedVideoChunk[], number[]>();
+
+const quantile = (values: number[], q: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))] ?? 0;
+};
+
+// Motion of every frame between 0 and 1, from the byte size of its delta
+// chunk: the more changes, the bigger the chunk. Key chunks carry a whole
+// picture rather than changes, so they take the level of the frame before
+export const motionLevels = (vid: Vid) => {
+  let motion = levels.get(vid.chunks);
+  if (!motion) {
+    const sizes: number[] = [];
+    vid.chunks.forEach((chunk, i) =>
+      sizes.push(chunk.type === "key" ? sizes[i - 1] ?? 0 : chunk.byteLength)
+    );
+    // Outliers would flatten everything else
+    const top = quantile(sizes, 0.95) || 1;
+    motion = sizes.map((size) => Math.min(1, size / top));
+    levels.set(vid.chunks, motion);
+  }
+  return motion;
+};
+
+// Frames where a new scene starts, found by decoding the whole vid and
+// comparing each picture, shrunk and in greyscale, with the one before
+export const detectSceneCuts = async (
+  vid: Vid,
+  config: VideoDecoderConfig,
+  onProgress: (progress: number) => unknown
+) => {
+  const canvas = new OffscreenCanvas(CUT_WIDTH, CUT_HEIGHT);
+  const context = canvas.getContext("2d", { willReadFrequently: true })!;
+  // Frames come out in presentation order, which is matched back to chunks
+  const indices = new Map(vid.chunks.map((chunk, i) => [chunk.timestamp, i]));
+  const lumas: { index: number; luma: Float32Array }[] = [];
+  let failure: DOMException | null = null;
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      context.drawImage(frame, 0, 0, CUT_WIDTH, CUT_HEIGHT);
+      const { data } = context.getImageData(0, 0, CUT_WIDTH, CUT_HEIGHT);
+      const luma = new Float32Array(CUT_WIDTH * CUT_HEIGHT);
+      for (let p = 0; p < luma.length; p++) {
+        luma[p] =
+          (0.299 * data[4 * p] + 0.587 * data[4 * p + 1] + 0.114 * data[4 * p + 2]) / 255;
+      }
+      lumas.push({ index: indices.get(frame.timestamp) ?? lumas.length, luma });
+      frame.close();
+      onProgress(lumas.length / vid.chunks.length);
+    },
+    error: (error) => (failure = error),
+  });
+  decoder.configure(config);
+  for (const chunk of vid.chunks) decoder.decode(chunk);
+  try {
+    await decoder.flush();
+  } finally {
+    if (decoder.state !== "closed") decoder.close();
+  }
+  if (failure) throw failure;
+
+  lumas.sort((a, b) => a.index - b.index);
+  const differences = lumas.map(({ luma }, i) => {
+    if (i === 0) return 0;
+    const previous = lumas[i - 1].luma;
+    let sum = 0;
+    for (let p = 0; p < luma.length; p++) sum += Math.abs(luma[p] - previous[p]);
+    return sum / luma.length;
+  });
+  const typical = quantile(differences.slice(1), 0.5);
+  return lumas
+    .filter(
+      (_, i) =>
+        i > 0 &&
+        differences[i] >= MIN_CUT_DIFFERENCE &&
+        differences[i] >= CUT_FACTOR * typical
+    )
+    .map(({ index }) => index);
+};
+
+export type SuggestedRange = {
+  from: number;
+  to: number;
+  kind: "calm" | "busy";
+};
+
+// Calm and busy stretches of a vid, never crossing a scene cut. Motion is
+// averaged over half a second so single spikes don't count. Calm stretches
+// last half a second to two seconds, busy ones are a few frames around the
+// peak of their stretch
+export const suggestRanges = (vid: Vid) => {
+  const motion = motionLevels(vid);
+  const radius = Math.max(1, Math.round(vid.fps / 4));
+  const smooth = motion.map((_, i) => {
+    const around = motion.slice(Math.max(0, i - radius), i + radius + 1);
+    return around.reduce((sum, level) => sum + level, 0) / around.length;
+  });
+  const calm = quantile(smooth, CALM_QUANTILE);
+  const busy = quantile(smooth, BUSY_QUANTILE);
+  const classify = (i: number) =>
+    smooth[i] <= calm ? "calm" : smooth[i] >= busy ? "busy" : null;
+  const minCalm = Math.max(2, Math.round(vid.fps / 2));
+  const maxCalm = Math.round(vid.fps * 2);
+  const loop = Math.max(2, Math.round(vid.fps / 6));
+
+  const ranges: SuggestedRange[] = [];
+  const boundaries = [0, ...(vid.cuts ?? []), vid.chunks.length];
+  for (let b = 1; b < boundaries.length; b++) {
+    const start = boundaries[b - 1];
+    const end = boundaries[b];
+    // Runs of calm or busy frames within the scene
+    let run = start;
+    for (let i = start + 1; i <= end; i++) {
+      if (i < end && classify(i) === classify(run)) continue;
+      if (classify(run) === "calm" && i - run >= minCalm) {
+        ranges.push({ from: run, to: Math.min(i, run + maxCalm), kind: "calm" });
+      } else if (classify(run) === "busy" && i - run >= loop) {
+        let peak = run;
+        for (let j = run; j < i; j++) if (smooth[j] > smooth[peak]) peak = j;
+        const from = clamp(peak - Math.floor(loop / 2), run, i - loop);
+        ranges.push({ from, to: from + loop, kind: "busy" });
+      }
+      run = i;
+    }
+  }
+  return ranges;
+};
+
+// A timeline from the suggestions in vid order: calm ranges play once as
+// bases, busy ones repeat as stutters. It opens on the vid's first key chunk
+// alone and every suggestion after it drops its key chunks
+export const suggestedSegments = (vid: Vid, ranges: SuggestedRange[]): Segment[] => [
+  { name: vid.name, from: 0, to: 1, repeat: 1 },
+  ...ranges.map(({ from, to, kind }) => ({
+    name: vid.name,
+    from,
+    to,
+    repeat: kind === "busy" ? 6 : 1,
+    keyframes: "drop" as const,
+  })),
+];
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import { beatSegments } from "./beats";
+import { compileTimeline } from "./lib";
+import { createRandom } from "./random";
+import { Vid } from "./types";
+
+const FPS = 25;
+
+// A vid of `length` chunks with a key chunk every `gop` frames
+const fakeVid = (name: string, length: number, gop: number): Vid => ({
+  src: "",
+  file: null as unknown as File,
+  name,
+  fps: FPS,
+  chunks: Array.from(
+    { length },
+    (_, i) =>
+      ({
+        type: i % gop === 0 ? "key" : "delta",
+        timestamp: (i * 1e6) / FPS,
+        duration: 1e6 / FPS,
+      }) as EncodedVideoChunk
+  ),
+});
+
+describe("beatSegments", () => {
+  const vids = [fakeVid("a", 60, 12), fakeVid("b", 7, 30)];
+  const grid = { bpm: 128, offset: 0.13, duration: 20 };
+
+  const generate = (unit: "beat" | "bar", dropKeyframes: boolean, seed: number) => {
+    const segments = beatSegments(
+      vids,
+      grid,
+      { unit, stutterChance: 0.5, dropKeyframes },
+      "source",
+      createRandom(seed)
+    );
+    return compileTimeline(segments, vids);
+  };
+
+  it.each([
+    ["beat", true],
+    ["beat", false],
+    ["bar", true],
+  ] as const)("plans the rounded grid per %s, dropping keys: %s", (unit, drop) => {
+    const interval = (60 / grid.bpm) * (unit === "bar" ? 4 : 1);
+    for (let seed = 1; seed <= 20; seed++) {
+      const plan = generate(unit, drop, seed);
+      expect(plan.frames.length).toBe(Math.round(grid.duration * FPS));
+
+      // Every beat or bar starts a segment
+      const starts = new Set(plan.segmentStarts);
+      for (let t = grid.offset; t < grid.duration; t += interval) {
+        expect(starts.has(Math.round(t * FPS))).toBe(true);
+      }
+    }
+  });
+
+  it("opens on the first vid's key chunk", () => {
+    const plan = generate("beat", true, 7);
+    expect(plan.frames[0].source?.vid.name).toBe("a");
+    expect(plan.frames[0].source?.chunk.type).toBe("key");
+  });
+});
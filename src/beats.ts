@@ -0,0 +1,251 @@
+import { Random } from "./random";
+import { OutputFrameRate, Segment, Vid } from "./types";
+
+// Analysis runs on a downsampled mono copy, plenty for finding beats
+const SAMPLE_RATE = 22050;
+const HOP = 512; // samples between onset envelope values
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const BEATS_PER_BAR = 4;
+// Autocorrelation can't tell a tempo from its half or double, so lags are
+// weighted towards this one
+const PREFERRED_BPM = 120;
+
+// Beats fall at offset + k * 60 / bpm seconds
+export type BeatGrid = {
+  bpm: number;
+  offset: number;
+  duration: number; // of the whole track, in seconds
+};
+
+export type BeatSyncOptions = {
+  unit: "beat" | "bar";
+  stutterChance: number; // chance a beat is filled by a stutter instead of playing on
+  dropKeyframes: boolean;
+};
+
+const decodeMono = async (file: File) => {
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return { mono, duration: buffer.duration };
+};
+
+// Rises in log energy between hops, which peak where notes and hits start
+const onsetEnvelope = (samples: Float32Array) => {
+  const hops = Math.floor(samples.length / HOP);
+  const envelope = new Float32Array(hops);
+  let previous = 0;
+  for (let h = 0; h < hops; h++) {
+    let energy = 0;
+    for (let i = h * HOP; i < (h + 1) * HOP; i++) energy += samples[i] * samples[i];
+    const level = Math.log1p(energy * 1000);
+    envelope[h] = Math.max(0, level - previous);
+    previous = level;
+  }
+  return envelope;
+};
+
+// Rough beat period in hops from the strongest autocorrelation of the envelope.
+// Periods rarely land on whole hops, so each onset is matched with the
+// strongest one within a hop of the lag
+const beatPeriod = (envelope: Float32Array) => {
+  const hopsPerSecond = SAMPLE_RATE / HOP;
+  const prior = (lag: number) =>
+    Math.exp(-0.5 * Math.log2((60 * hopsPerSecond) / lag / PREFERRED_BPM) ** 2);
+  const minLag = Math.floor((60 / MAX_BPM) * hopsPerSecond);
+  const maxLag = Math.ceil((60 / MIN_BPM) * hopsPerSecond);
+  const correlation = (lag: number) => {
+    let sum = 0;
+    for (let i = lag + 1; i < envelope.length; i++) {
+      const earlier = Math.max(
+        envelope[i - lag - 1],
+        envelope[i - lag],
+        envelope[i - lag + 1]
+      );
+      sum += envelope[i] * earlier;
+    }
+    return (sum / (envelope.length - lag)) * prior(lag);
+  };
+  let best = minLag;
+  let bestValue = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const value = correlation(lag);
+    if (value > bestValue) {
+      best = lag;
+      bestValue = value;
+    }
+  }
+  return best;
+};
+
+// Whole-hop lags are too coarse, a grid a fraction of a percent off drifts by
+// whole beats over a song. So the period is searched within a hop of the rough
+// one together with the phase, for the grid collecting the most onset strength
+const fitGrid = (envelope: Float32Array, roughPeriod: number) => {
+  // Softened so onsets split between two hops still count at fractional times
+  const smooth = envelope.map(
+    (value, i) =>
+      0.5 * value + 0.25 * ((envelope[i - 1] ?? 0) + (envelope[i + 1] ?? 0))
+  );
+  const at = (t: number) => {
+    const i = Math.floor(t);
+    const fraction = t - i;
+    return (1 - fraction) * smooth[i] + fraction * (smooth[i + 1] ?? 0);
+  };
+  let best = { period: roughPeriod, phase: 0 };
+  let bestValue = -Infinity;
+  for (let step = -100; step <= 100; step++) {
+    const period = roughPeriod + step * 0.01;
+    for (let phase = 0; phase < period; phase += 0.25) {
+      let sum = 0;
+      for (let t = phase; t < envelope.length; t += period) {
+        sum += at(t);
+      }
+      if (sum > bestValue) {
+        best = { period, phase };
+        bestValue = sum;
+      }
+    }
+  }
+  return best;
+};
+
+export const detectBeats = async (file: File): Promise<BeatGrid> => {
+  const { mono, duration } = await decodeMono(file);
+  const envelope = onsetEnvelope(mono);
+  if (envelope.length < 2 * Math.ceil((60 / MIN_BPM) * (SAMPLE_RATE / HOP))) {
+    throw new Error("Track is too short to detect its tempo");
+  }
+  const { period, phase } = fitGrid(envelope, beatPeriod(envelope));
+  const secondsPerHop = HOP / SAMPLE_RATE;
+  return {
+    bpm: 60 / (period * secondsPerHop),
+    offset: phase * secondsPerHop,
+    duration,
+  };
+};
+
+// Divisors of n between min and max, the loop lengths that fill n exactly
+const divisors = (n: number, min: number, max: number) => {
+  const found: number[] = [];
+  for (let d = min; d <= Math.min(max, n); d++) if (n % d === 0) found.push(d);
+  return found;
+};
+
+// The single rate beat times are turned into frames at. Vids keep their own
+// frame durations at the "source" rate, so that only lands on the grid when
+// they all share one; null when they don't
+export const beatFrameRate = (vids: Vid[], frameRate: OutputFrameRate) => {
+  if (frameRate !== "source") return frameRate;
+  const rates = new Set(vids.map((vid) => vid.fps));
+  return rates.size === 1 ? vids[0].fps : null;
+};
+
+// End of the range starting at `from` that plays `frames` chunks, key chunks
+// not counting when they're dropped. null if the vid runs out first
+const rangeEnd = (vid: Vid, from: number, frames: number, drop: boolean) => {
+  let played = 0;
+  for (let to = from; to < vid.chunks.length; to++) {
+    if (!drop || vid.chunks[to].type === "delta") played++;
+    if (played === frames) return to + 1;
+  }
+  return null;
+};
+
+// One segment per beat or bar of the grid, plus one for the lead-in before the
+// first beat. Every segment lasts exactly up to the next boundary: segments
+// either play on through a random vid or loop a few frames with
+// the chunks they play times repeat filling the interval. Frame counts come
+// from the rounded boundary times at one rate so rounding never drifts off
+// the grid
+export const beatSegments = (
+  vids: Vid[],
+  grid: BeatGrid,
+  { unit, stutterChance, dropKeyframes }: BeatSyncOptions,
+  frameRate: OutputFrameRate,
+  random: Random
+) => {
+  const fps = beatFrameRate(vids, frameRate);
+  if (fps === null) {
+    throw new Error("Videos with different frame rates need a fixed output frame rate");
+  }
+  const interval = (60 / grid.bpm) * (unit === "bar" ? BEATS_PER_BAR : 1);
+  const boundaries = [0];
+  for (let t = grid.offset; t < grid.duration; t += interval) {
+    if (t > 0) boundaries.push(t);
+  }
+  boundaries.push(grid.duration);
+
+  const cursors = new Map<string, number>();
+  const segments: Segment[] = [];
+  for (let i = 1; i < boundaries.length; i++) {
+    // The timeline has to open on the first vid's key chunk
+    const vid = i === 1 ? vids[0] : vids[Math.floor(random() * vids.length)];
+    const frames =
+      Math.round(boundaries[i] * fps) - Math.round(boundaries[i - 1] * fps);
+    if (frames < 1) continue;
+    // Dropped key chunks don't play, so ranges are sized in the chunks that do
+    const deltas = vid.chunks.filter((chunk) => chunk.type === "delta").length;
+    const drop = dropKeyframes && segments.length > 0 && deltas > 0;
+    const playable = drop ? deltas : vid.chunks.length;
+    const keyframes = drop ? "drop" : undefined;
+
+    const loops = divisors(frames, 2, Math.min(8, playable, frames / 2));
+    if (i > 1 && loops.length > 0 && random() < stutterChance) {
+      const length = loops[Math.floor(random() * loops.length)];
+      let from = Math.floor(random() * (vid.chunks.length - length + 1));
+      let to = rangeEnd(vid, from, length, drop);
+      if (to === null) {
+        from = 0;
+        to = rangeEnd(vid, from, length, drop)!;
+      }
+      segments.push({
+        name: vid.name,
+        from,
+        to,
+        repeat: frames / length,
+        ...(keyframes && { keyframes }),
+      });
+      continue;
+    }
+
+    // Long intervals loop the whole vid, the remainder plays on after it
+    const length = Math.min(frames, playable);
+    let from = i === 1 ? 0 : cursors.get(vid.name) ?? 0;
+    let to = rangeEnd(vid, from, length, drop);
+    if (to === null) {
+      from = 0;
+      to = rangeEnd(vid, from, length, drop)!;
+    }
+    const repeat = Math.floor(frames / length);
+    segments.push({
+      name: vid.name,
+      from,
+      to,
+      repeat,
+      ...(keyframes && { keyframes }),
+    });
+    const rest = frames - length * repeat;
+    if (rest > 0) {
+      // The rest follows on, so it drops keys whenever there are enough deltas
+      const restDrop = dropKeyframes && rangeEnd(vid, from, rest, true) !== null;
+      to = rangeEnd(vid, from, rest, restDrop)!;
+      segments.push({
+        name: vid.name,
+        from,
+        to,
+        repeat: 1,
+        ...(restDrop && { keyframes: "drop" as const }),
+      });
+    }
+    cursors.set(vid.name, to);
+  }
+  return segments;
+};
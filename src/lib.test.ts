@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+
+import { compileChunks, compileTimeline, segmentFrames } from "./lib";
+import { Segment, Vid } from "./types";
+
+const FRAME = 1e6 / 25;
+
+// Plain objects stand in for chunks, only type and timing are read
+const chunk = (type: EncodedVideoChunkType, i: number) =>
+  ({ type, timestamp: i * FRAME, duration: FRAME }) as EncodedVideoChunk;
+
+// A vid of `length` chunks with a key chunk every `gop` frames
+const fakeVid = (name: string, length: number, gop = 10): Vid => ({
+  src: "",
+  file: null as unknown as File,
+  name,
+  fps: 25,
+  chunks: Array.from({ length }, (_, i) => chunk(i % gop === 0 ? "key" : "delta", i)),
+});
+
+const segment = (
+  name: string,
+  from: number,
+  to: number,
+  patch: Partial<Segment> = {}
+): Segment => ({
+  name,
+  from,
+  to,
+  repeat: 1,
+  ...patch,
+});
+
+const indices = (segments: Segment[], vids: Vid[]) =>
+  compileTimeline(segments, vids).frames.map((frame) => frame.source?.index ?? null);
+
+describe("segmentFrames", () => {
+  const vid = fakeVid("a", 20);
+
+  it("plays the range forward by default", () => {
+    expect(segmentFrames(segment("a", 2, 6), vid)).toEqual([2, 3, 4, 5]);
+  });
+
+  it("clamps the range to the vid", () => {
+    expect(segmentFrames(segment("a", -3, 2), vid)).toEqual([0, 1]);
+    expect(segmentFrames(segment("a", 18, 30), vid)).toEqual([18, 19]);
+  });
+
+  it("plays nothing for empty ranges and holds", () => {
+    expect(segmentFrames(segment("a", 5, 5), vid)).toEqual([]);
+    expect(segmentFrames(segment("a", 6, 2), vid)).toEqual([]);
+    expect(segmentFrames(segment("a", 0, 4, { hold: 3 }), vid)).toEqual([]);
+  });
+
+  it("follows each playback mode", () => {
+    const play = (playback: Segment["playback"]) =>
+      segmentFrames(segment("a", 0, 5, { playback }), vid);
+    expect(play({ mode: "reverse" })).toEqual([4, 3, 2, 1, 0]);
+    expect(play({ mode: "pingpong" })).toEqual([0, 1, 2, 3, 4, 3, 2, 1]);
+    expect(play({ mode: "skip", step: 2 })).toEqual([0, 2, 4]);
+    expect(play({ mode: "pattern", pattern: [1, 0] })).toEqual([1, 0, 3, 2, 4]);
+  });
+
+  it("treats skips below one as plain forward", () => {
+    const frames = segmentFrames(
+      segment("a", 0, 3, { playback: { mode: "skip", step: 0 } }),
+      vid
+    );
+    expect(frames).toEqual([0, 1, 2]);
+  });
+
+  it("falls back to forward without usable pattern offsets", () => {
+    const frames = segmentFrames(
+      segment("a", 0, 3, { playback: { mode: "pattern", pattern: [-1] } }),
+      vid
+    );
+    expect(frames).toEqual([0, 1, 2]);
+  });
+});
+
+describe("compileTimeline", () => {
+  const a = fakeVid("a", 20);
+  const b = fakeVid("b", 20);
+
+  it("plays segments in order, repeats included", () => {
+    const plan = compileTimeline(
+      [segment("a", 0, 3), segment("b", 11, 13, { repeat: 2 })],
+      [a, b]
+    );
+    const played = plan.frames.map((frame) => [
+      frame.segment,
+      frame.repeat,
+      frame.source?.index,
+    ]);
+    expect(played).toEqual([
+      [0, 0, 0],
+      [0, 0, 1],
+      [0, 0, 2],
+      [1, 0, 11],
+      [1, 0, 12],
+      [1, 1, 11],
+      [1, 1, 12],
+    ]);
+    expect(plan.segmentStarts).toEqual([0, 3]);
+    expect(plan.duration).toBe(7 * FRAME);
+    expect(plan.frames[4].timestamp).toBe(4 * FRAME);
+  });
+
+  it("plays nothing for missing vids and empty ranges", () => {
+    const plan = compileTimeline(
+      [
+        segment("a", 0, 2),
+        segment("gone", 0, 5),
+        segment("a", 4, 4),
+        segment("a", 5, 6),
+      ],
+      [a]
+    );
+    expect(plan.frames.map((frame) => frame.source?.index)).toEqual([0, 1, 5]);
+    expect(plan.segmentStarts).toEqual([0, 2, 2, 2]);
+  });
+
+  it("compiles an empty timeline to an empty plan", () => {
+    expect(compileTimeline([], [a])).toEqual({
+      frames: [],
+      segmentStarts: [],
+      audio: [],
+      duration: 0,
+    });
+  });
+
+  it("turns holds into frames without a source, dropping a leading one", () => {
+    const segments = [
+      segment("a", 0, 0, { hold: 2 }),
+      segment("a", 0, 2),
+      segment("a", 0, 0, { hold: 3 }),
+    ];
+    expect(indices(segments, [a])).toEqual([0, 1, null, null, null]);
+  });
+
+  it("applies playback modes", () => {
+    const segments = [
+      segment("a", 0, 2),
+      segment("a", 3, 6, { playback: { mode: "reverse" } }),
+    ];
+    expect(indices(segments, [a])).toEqual([0, 1, 5, 4, 3]);
+  });
+
+  it("drops key chunks except the one opening the timeline", () => {
+    const segments = [
+      segment("a", 0, 3, { keyframes: "drop" }),
+      segment("a", 8, 12, { keyframes: "drop" }),
+    ];
+    expect(indices(segments, [a])).toEqual([0, 1, 2, 8, 9, 11]);
+  });
+
+  it("opens the first pass of a forced segment on its re-encoded key", () => {
+    const key = chunk("key", 5);
+    const vid = { ...a, keyframes: { 5: key } };
+    const plan = compileTimeline(
+      [segment("a", 0, 2), segment("a", 5, 7, { keyframes: "force", repeat: 2 })],
+      [vid]
+    );
+    const chunks = plan.frames.map((frame) => frame.source?.chunk);
+    expect(chunks[2]).toBe(key);
+    expect(chunks[4]).toBe(a.chunks[5]);
+  });
+
+  it("uses the output frame rate over chunk durations", () => {
+    const plan = compileTimeline(
+      [segment("a", 0, 2), segment("a", 0, 0, { hold: 1 })],
+      [a],
+      50
+    );
+    expect(plan.frames.map((frame) => frame.duration)).toEqual([2e4, 2e4, 2e4]);
+    expect(plan.duration).toBe(6e4);
+  });
+
+  it("plans audio over each pass of its segment", () => {
+    const audio = { type: "sine" as const, frequency: 440, volume: 0.5 };
+    const plan = compileTimeline(
+      [segment("a", 0, 2), segment("a", 2, 4, { repeat: 2, audio })],
+      [a]
+    );
+    expect(plan.audio).toEqual([
+      { segment: 1, repeat: 0, audio, timestamp: 2 * FRAME, duration: 2 * FRAME },
+      { segment: 1, repeat: 1, audio, timestamp: 4 * FRAME, duration: 2 * FRAME },
+    ]);
+  });
+});
+
+describe("compileChunks", () => {
+  const a = fakeVid("a", 20);
+
+  it("folds holds into the time of the chunk before them", () => {
+    const { chunks, holds } = compileChunks(
+      [segment("a", 0, 2), segment("a", 0, 0, { hold: 3 }), segment("a", 2, 3)],
+      [a]
+    );
+    expect(chunks).toEqual(a.chunks.slice(0, 3));
+    expect(holds[1]).toBe(3 * FRAME);
+    expect(holds[0]).toBeUndefined();
+  });
+
+  it("maps segment starts and key chunks to chunk positions", () => {
+    const { segmentStarts, keyframes } = compileChunks(
+      [
+        segment("a", 0, 2),
+        segment("a", 0, 0, { hold: 1 }),
+        segment("gone", 0, 3),
+        segment("a", 9, 12),
+      ],
+      [a]
+    );
+    expect(segmentStarts).toEqual([0, 2, 2, 2]);
+    expect(keyframes).toEqual([0, 3]);
+  });
+});
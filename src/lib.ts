@@ -1,10 +1,255 @@
 import { FFmpeg } from "@ffmpeg/ffmpeg";
-import { fetchFile } from "@ffmpeg/util";
+import { fetchFile, toBlobURL } from "@ffmpeg/util";
 import { createFile, DataStream, MP4ArrayBuffer, MP4File } from "mp4box";
 
-import { AudioSegment, Segment, Settings } from "./types";
+import {
+  AudioSegment,
+  OutputFrameRate,
+  PlannedAudio,
+  PlannedFrame,
+  RenderMode,
+  Segment,
+  Settings,
+  StillClip,
+  TimelinePlan,
+  Vid,
+} from "./types";
 
-export const FPS = 30;
+// Fallback for files whose frame rate can't be detected
+export const DEFAULT_FPS = 30;
+
+export const uniqueName = (base: string, taken: string[]) => {
+  let name = base;
+  let i = 0;
+  while (taken.includes(name)) {
+    name = `${base}_${i}`;
+    i++;
+  }
+  return name;
+};
+
+// Duration of the output frame produced by a chunk, in microseconds
+export const chunkDuration = (
+  chunk: EncodedVideoChunk,
+  frameRate: OutputFrameRate
+) =>
+  frameRate === "source"
+    ? chunk.duration || 1e6 / DEFAULT_FPS
+    : 1e6 / frameRate;
+
+// Duration of one frame of a hold segment, in microseconds
+const holdFrameDuration = (vid: Vid | undefined, frameRate: OutputFrameRate) =>
+  frameRate === "source" ? 1e6 / (vid?.fps || DEFAULT_FPS) : 1e6 / frameRate;
+
+// Indices of the vid chunks fed by one play of a segment, in order
+export const segmentFrames = (segment: Segment, vid: Vid): number[] => {
+  if (segment.hold !== undefined) return [];
+  const from = Math.max(0, segment.from);
+  const to = Math.min(segment.to, vid.chunks.length);
+  const forward = Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
+  const playback = segment.playback ?? { mode: "forward" };
+  switch (playback.mode) {
+    case "forward":
+      return forward;
+    case "reverse":
+      return forward.reverse();
+    case "pingpong":
+      return [...forward, ...forward.slice(1, -1).reverse()];
+    case "skip":
+      return forward.filter((_, i) => i % Math.max(1, playback.step) === 0);
+    case "pattern": {
+      const pattern = playback.pattern.filter((offset) => offset >= 0);
+      if (pattern.length === 0) return forward;
+      const span = Math.max(...pattern) + 1;
+      const frames: number[] = [];
+      for (let cycle = 0; cycle * span < forward.length; cycle++) {
+        for (const offset of pattern) {
+          const i = cycle * span + offset;
+          if (i < forward.length) frames.push(forward[i]);
+        }
+      }
+      return frames;
+    }
+  }
+};
+
+// Duration of one play of a segment, in seconds
+export const segmentDuration = (
+  segment: Segment,
+  vid: Vid | undefined,
+  frameRate: OutputFrameRate
+) => {
+  if (segment.hold !== undefined) {
+    return (segment.hold * holdFrameDuration(vid, frameRate)) / 1e6;
+  }
+  if (!vid) return 0;
+  return (
+    segmentFrames(segment, vid).reduce(
+      (total, i) => total + chunkDuration(vid.chunks[i], frameRate),
+      0
+    ) / 1e6
+  );
+};
+
+// Duration of a whole vid, from its chunk timestamps
+export const vidDuration = (vid: Vid) => {
+  const last = vid.chunks[vid.chunks.length - 1];
+  if (!last) return 0;
+  return (last.timestamp + (last.duration ?? 0) - vid.chunks[0].timestamp) / 1e6;
+};
+
+// Forced keyframes that still have to be re-encoded before compiling. They
+// go on the first chunk a segment plays, which isn't `from` when reversed.
+// Frames that failed to re-encode aren't pending, validation reports them
+export const pendingKeyframes = (segments: Segment[], vids: Vid[]) =>
+  segments.flatMap((segment) => {
+    const vid = vids.find((vid) => vid.name === segment.name);
+    if (segment.keyframes !== "force" || !vid) return [];
+    const [index] = segmentFrames(segment, vid);
+    if (
+      index === undefined ||
+      vid.chunks[index].type !== "delta" ||
+      vid.keyframes?.[index] ||
+      vid.keyframeErrors?.[index]
+    ) {
+      return [];
+    }
+    return [{ vid, index }];
+  });
+
+// Turns a timeline into the frames it plays, in order. Every consumer plays
+// from this plan so renders, previews, audio and real-time mode agree.
+// Segments whose vid is missing and empty ranges play nothing. Holds become
+// frames without a source that keep the previous frame on screen, a hold with
+// nothing before it is dropped. Audio plays over each pass of its segment
+export const compileTimeline = (
+  segments: Segment[],
+  vids: Vid[],
+  frameRate: OutputFrameRate = "source"
+): TimelinePlan => {
+  const frames: PlannedFrame[] = [];
+  const segmentStarts: number[] = [];
+  const audio: PlannedAudio[] = [];
+  let timestamp = 0;
+  const push = (frame: Omit<PlannedFrame, "timestamp">) => {
+    frames.push({ ...frame, timestamp });
+    timestamp += frame.duration;
+  };
+  segments.forEach((segment, s) => {
+    segmentStarts.push(frames.length);
+    const vid = vids.find((vid) => vid.name === segment.name);
+    let indices: number[] = [];
+    let forced: EncodedVideoChunk | undefined;
+    if (segment.hold === undefined && vid) {
+      indices = segmentFrames(segment, vid);
+      if (segment.keyframes === "force") forced = vid.keyframes?.[indices[0]];
+      if (segment.keyframes === "drop") {
+        // The decoder can't start on a delta chunk, so the very first key stays
+        const first = frames.length === 0;
+        indices = indices.filter(
+          (index, j) => vid.chunks[index].type === "delta" || (first && j === 0)
+        );
+      }
+    }
+    for (let repeat = 0; repeat < segment.repeat; repeat++) {
+      const start = timestamp;
+      if (segment.hold !== undefined) {
+        if (frames.length === 0) break;
+        for (let i = 0; i < segment.hold; i++) {
+          push({
+            segment: s,
+            repeat,
+            source: null,
+            duration: holdFrameDuration(vid, frameRate),
+          });
+        }
+      } else if (vid) {
+        indices.forEach((index, j) => {
+          // A forced key only opens the first pass
+          const chunk = repeat === 0 && j === 0 && forced ? forced : vid.chunks[index];
+          push({
+            segment: s,
+            repeat,
+            source: { vid, index, chunk },
+            duration: chunkDuration(chunk, frameRate),
+          });
+        });
+      }
+      if (segment.audio && timestamp > start) {
+        audio.push({
+          segment: s,
+          repeat,
+          audio: segment.audio,
+          timestamp: start,
+          duration: timestamp - start,
+        });
+      }
+    }
+  });
+  return { frames, segmentStarts, audio, duration: timestamp };
+};
+
+// Index of the planned frame on screen at `timestamp` microseconds, -1 past
+// either end
+export const planFrameAt = ({ frames }: TimelinePlan, timestamp: number) => {
+  let low = 0;
+  let high = frames.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const frame = frames[mid];
+    if (timestamp < frame.timestamp) high = mid - 1;
+    else if (timestamp >= frame.timestamp + frame.duration) low = mid + 1;
+    else return mid;
+  }
+  return -1;
+};
+
+// The chunks of a plan as the encoders and decoders take them, the index
+// where each segment starts and where key chunks land. Holds become extra
+// time, in microseconds, that the frame of the chunk before them stays on
+// screen
+export const compileChunks = (
+  segments: Segment[],
+  vids: Vid[],
+  frameRate: OutputFrameRate = "source"
+) => {
+  const plan = compileTimeline(segments, vids, frameRate);
+  const chunks: EncodedVideoChunk[] = [];
+  const keyframes: number[] = [];
+  const holds: number[] = [];
+  const chunkStarts: number[] = []; // chunks fed before each planned frame
+  for (const frame of plan.frames) {
+    chunkStarts.push(chunks.length);
+    if (!frame.source) {
+      const last = chunks.length - 1;
+      holds[last] = (holds[last] ?? 0) + frame.duration;
+      continue;
+    }
+    if (frame.source.chunk.type === "key") keyframes.push(chunks.length);
+    chunks.push(frame.source.chunk);
+  }
+  const segmentStarts = plan.segmentStarts.map(
+    (start) => chunkStarts[start] ?? chunks.length
+  );
+  return { chunks, segmentStarts, keyframes, holds };
+};
+
+// Positions of compiled key chunks falling inside segment i
+export const segmentKeyframes = (
+  { chunks, segmentStarts, keyframes }: ReturnType<typeof compileChunks>,
+  i: number
+) => {
+  const end = segmentStarts[i + 1] ?? chunks.length;
+  return keyframes.filter((index) => index >= segmentStarts[i] && index < end);
+};
+
+// Frame rate from the most common sample duration, rounded to 0.01 fps
+const detectFrameRate = (samples: { duration: number; timescale: number }[]) => {
+  const durations = samples.map((sample) => sample.duration).sort((a, b) => a - b);
+  const median = durations[Math.floor(durations.length / 2)];
+  if (!median) return DEFAULT_FPS;
+  return Math.round((100 * samples[0].timescale) / median) / 100;
+};
 
 // Generate minimal silent audio without AudioContext for performance
 const generateSilentAudio = (duration: number): Blob => {
@@ -184,13 +429,18 @@ const generateSegmentAudio = async (
   return sourceBuffer;
 };
 
+// Segment audio is mixed over the soundtrack when there is one, which is cut
+// to the length of the timeline
 const generateTimelineAudio = async (
   segments: Segment[],
-  audioVolume: number = 0.5
+  vids: Vid[],
+  frameRate: OutputFrameRate,
+  audioVolume: number = 0.5,
+  soundtrack?: File
 ): Promise<Blob> => {
   // Early exit: Check if any segments have audio before initializing AudioContext
   const hasAudioSegments = segments.some(segment => segment.audio);
-  if (!hasAudioSegments) {
+  if (!hasAudioSegments && !soundtrack) {
     console.log('🎵 No audio segments found, generating minimal silent audio');
     // Return minimal silent audio without AudioContext
     return generateSilentAudio(1.0); // 1 second of silence
@@ -200,17 +450,8 @@ const generateTimelineAudio = async (
   const startTime = performance.now();
   const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
   
-  // Calculate total duration
-  let totalDuration = 0;
-  const segmentDurations: number[] = [];
-  
-  segments.forEach(segment => {
-    const segmentFrames = segment.to - segment.from;
-    const segmentDuration = segmentFrames / FPS;
-    const totalSegmentDuration = segmentDuration * segment.repeat;
-    segmentDurations.push(totalSegmentDuration);
-    totalDuration += totalSegmentDuration;
-  });
+  const plan = compileTimeline(segments, vids, frameRate);
+  const totalDuration = plan.duration / 1e6;
   
   if (totalDuration === 0) {
     // Return silent audio
@@ -227,79 +468,70 @@ const generateTimelineAudio = async (
   );
   const finalData = finalBuffer.getChannelData(0);
   
-  let currentOffset = 0;
+  if (soundtrack) {
+    // decodeAudioData resamples to the context's rate, channels are mixed down
+    const track = await audioContext.decodeAudioData(await soundtrack.arrayBuffer());
+    const length = Math.min(track.length, finalData.length);
+    for (let channel = 0; channel < track.numberOfChannels; channel++) {
+      const data = track.getChannelData(channel);
+      for (let j = 0; j < length; j++) {
+        finalData[j] += (data[j] * audioVolume) / track.numberOfChannels;
+      }
+    }
+    console.log(`🎵 Mixed soundtrack ${soundtrack.name} (${track.duration.toFixed(2)}s)`);
+  }
   
-  // Generate audio for each segment, handling repeats properly
-  for (let i = 0; i < segments.length; i++) {
+  // Each pass of a segment with audio gets its own buffer, placed where the
+  // plan starts that pass
+  for (const { segment: i, repeat: repeatIndex, audio, timestamp, duration } of plan.audio) {
     const segment = segments[i];
+    const singlePlayDuration = duration / 1e6;
+    const currentOffset = Math.floor((audioContext.sampleRate * timestamp) / 1e6);
+    console.log(`🎵 Generating repeat ${repeatIndex + 1}/${segment.repeat} for segment ${i}:`, {
+      type: audio.type,
+      volume: audio.volume,
+      frequency: audio.frequency,
+      noiseType: audio.noiseType,
+      sampleUrl: audio.sampleUrl,
+      singlePlayDuration: singlePlayDuration.toFixed(3),
+      currentOffset: currentOffset,
+      totalDuration: totalDuration
+    });
     
-    if (segment.audio) {
-      console.log(`🎵 Generating audio for segment ${i}:`, {
-        type: segment.audio.type,
-        repeat: segment.repeat,
-        volume: segment.audio.volume,
-        frequency: segment.audio.frequency,
-        noiseType: segment.audio.noiseType,
-        sampleUrl: segment.audio.sampleUrl
-      });
-      
-      // Calculate duration for a single play of this segment (without repeats)
-      const segmentFrames = segment.to - segment.from;
-      const singlePlayDuration = segmentFrames / FPS;
-      
-      // Generate audio for each repeat
-      for (let repeatIndex = 0; repeatIndex < segment.repeat; repeatIndex++) {
-        console.log(`🎵 Generating repeat ${repeatIndex + 1}/${segment.repeat} for segment ${i}:`, {
-          singlePlayDuration: singlePlayDuration.toFixed(3),
-          audioType: segment.audio.type,
-          currentOffset: currentOffset,
-          totalDuration: totalDuration
-        });
-        
-        const segmentBuffer = await generateSegmentAudio(
-          audioContext,
-          segment.audio,
-          singlePlayDuration, // Use single play duration, not total duration
-          audioVolume
-        );
-        
-        const segmentData = segmentBuffer.getChannelData(0);
-        const copyLength = Math.min(segmentData.length, finalData.length - currentOffset);
-        
-        // Check if audio data actually has non-zero values (only log for first repeat to avoid spam)
-        if (repeatIndex === 0) {
-          let hasNonZeroData = false;
-          let maxValue = 0;
-          for (let j = 0; j < Math.min(100, segmentData.length); j++) {
-            if (Math.abs(segmentData[j]) > 0.001) {
-              hasNonZeroData = true;
-              maxValue = Math.max(maxValue, Math.abs(segmentData[j]));
-            }
-          }
-          
-          console.log(`🎵 Segment ${i} audio data check (${segment.repeat} repeats):`, {
-            singlePlayDuration: singlePlayDuration.toFixed(3),
-            bufferLength: segmentData.length,
-            copyLength,
-            hasNonZeroData,
-            maxValue: maxValue.toFixed(4),
-            firstFewSamples: Array.from(segmentData.slice(0, 10)).map(v => v.toFixed(4))
-          });
-        }
-        
-        // Copy audio data for this repeat
-        for (let j = 0; j < copyLength; j++) {
-          finalData[currentOffset + j] = segmentData[j];
+    const segmentBuffer = await generateSegmentAudio(
+      audioContext,
+      audio,
+      singlePlayDuration,
+      audioVolume
+    );
+    
+    const segmentData = segmentBuffer.getChannelData(0);
+    const copyLength = Math.min(segmentData.length, finalData.length - currentOffset);
+    
+    // Check if audio data actually has non-zero values (only log for first repeat to avoid spam)
+    if (repeatIndex === 0) {
+      let hasNonZeroData = false;
+      let maxValue = 0;
+      for (let j = 0; j < Math.min(100, segmentData.length); j++) {
+        if (Math.abs(segmentData[j]) > 0.001) {
+          hasNonZeroData = true;
+          maxValue = Math.max(maxValue, Math.abs(segmentData[j]));
         }
-        
-        currentOffset += Math.floor(audioContext.sampleRate * singlePlayDuration);
       }
-    } else {
-      // If no audio, advance by the total segment duration (including all repeats)
-      const segmentFrames = segment.to - segment.from;
-      const singlePlayDuration = segmentFrames / FPS;
-      const totalSegmentDuration = singlePlayDuration * segment.repeat;
-      currentOffset += Math.floor(audioContext.sampleRate * totalSegmentDuration);
+      
+      console.log(`🎵 Segment ${i} audio data check (${segment.repeat} repeats):`, {
+        singlePlayDuration: singlePlayDuration.toFixed(3),
+        bufferLength: segmentData.length,
+        copyLength,
+        hasNonZeroData,
+        maxValue: maxValue.toFixed(4),
+        firstFewSamples: Array.from(segmentData.slice(0, 10)).map(v => v.toFixed(4))
+      });
+    }
+    
+    // Mix audio data for this repeat
+    for (let j = 0; j < copyLength; j++) {
+      finalData[currentOffset + j] += segmentData[j];
     }
   }
   
@@ -387,38 +619,150 @@ const computeDescription = (file: MP4File, trackId: number) => {
   throw new Error("avcC, hvcC, vpcC, or av1C box not found");
 };
 
+// 90kHz divides evenly by the common frame rates (24, 25, 30, 60)
+const MP4_TIMESCALE = 90000;
+
+type MuxSample = {
+  data: Uint8Array;
+  duration: number; // in microseconds
+  isKey: boolean;
+};
+
+const toArrayBuffer = (source: AllowSharedBufferSource): ArrayBuffer => {
+  const view = ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+  return view.slice().buffer;
+};
+
+// Write H.264 samples into an MP4 with explicit, contiguous timestamps
+const muxSamples = (
+  samples: MuxSample[],
+  description: AllowSharedBufferSource,
+  width: number,
+  height: number
+): Blob => {
+  const file = createFile();
+  const trackId = file.addTrack({
+    timescale: MP4_TIMESCALE,
+    width,
+    height,
+    avcDecoderConfigRecord: toArrayBuffer(description),
+  });
+
+  let time = 0;
+  for (const sample of samples) {
+    const dts = Math.round((time * MP4_TIMESCALE) / 1e6);
+    time += sample.duration;
+    const duration = Math.round((time * MP4_TIMESCALE) / 1e6) - dts;
+    file.addSample(trackId, sample.data, {
+      duration,
+      dts,
+      cts: dts,
+      is_sync: sample.isKey,
+    });
+  }
+
+  return new Blob([file.getBuffer()], { type: "video/mp4" });
+};
+
+// Encoder parameters used to preprocess every file, part of the media cache key
+export const PREPROCESS_ARGS =
+  "-vcodec libx264 -g 99999999 -bf 0 -flags:v +cgop -pix_fmt yuv420p -movflags faststart -crf 15";
+
+export const loadFFmpeg = async (ffmpeg: FFmpeg) => {
+  const baseURL = "https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm";
+  console.log("loading ffmpeg...");
+  await ffmpeg.load({
+    coreURL: await toBlobURL(
+      `${baseURL}/ffmpeg-core.js`,
+      "text/javascript"
+    ),
+    wasmURL: await toBlobURL(
+      `${baseURL}/ffmpeg-core.wasm`,
+      "application/wasm"
+    ),
+  });
+  console.log("ffmpeg loaded");
+};
+
 export const computeChunks = (
   ffmpeg: FFmpeg,
   inputFile: File,
   name: string,
   width: number,
   height: number,
-  onConfig: (config: VideoDecoderConfig) => unknown
+  onConfig: (config: VideoDecoderConfig) => unknown,
+  {
+    signal,
+    onStatus,
+    still,
+  }: {
+    signal?: AbortSignal;
+    onStatus?: (status: "transcoding" | "demuxing") => unknown;
+    still?: StillClip;
+  } = {}
 ) =>
-  new Promise<EncodedVideoChunk[]>(async (resolve, reject) => {
+  new Promise<Pick<Vid, "chunks" | "fps">>(async (resolve, reject) => {
+    signal?.addEventListener("abort", () => reject(signal.reason), {
+      once: true,
+    });
     try {
-      const inputName = `input_${name}.mp4`;
+      signal?.throwIfAborted();
+      onStatus?.("transcoding");
+      // The image demuxer picks its decoder from the extension
+      const inputName = still
+        ? `input_${name}.${inputFile.name.split(".").pop()}`
+        : `input_${name}.mp4`;
       const outputName = `output_${name}_${Math.random()
         .toFixed(10)
         .substring(2)}.mp4`;
-      await ffmpeg.writeFile(inputName, await fetchFile(inputFile));
-      await ffmpeg.exec(
-        `-i ${inputName} -vf scale=${width}:${height} -vcodec libx264 -g 99999999 -bf 0 -flags:v +cgop -pix_fmt yuv420p -movflags faststart -crf 15 ${outputName}`.split(
+      const input = still
+        ? `-loop 1 -framerate ${still.fps} -i ${inputName} -frames:v ${still.frames}`
+        : `-i ${inputName}`;
+      await ffmpeg.writeFile(inputName, await fetchFile(inputFile), { signal });
+      const exitCode = await ffmpeg.exec(
+        `${input} -vf scale=${width}:${height} ${PREPROCESS_ARGS} ${outputName}`.split(
           " "
-        )
+        ),
+        undefined,
+        { signal }
       );
-      const data = (await ffmpeg.readFile(outputName)) as Uint8Array;
+      if (exitCode !== 0) {
+        throw new Error(`ffmpeg exited with code ${exitCode} while transcoding ${name}`);
+      }
+      const data = (await ffmpeg.readFile(outputName, undefined, { signal })) as Uint8Array;
+      await ffmpeg.deleteFile(inputName, { signal });
+      await ffmpeg.deleteFile(outputName, { signal });
+
+      signal?.throwIfAborted();
+      onStatus?.("demuxing");
+      const { config, chunks, fps } = await demux(data, name);
+      onConfig(config);
+      resolve({ chunks, fps });
+    } catch (e) {
+      reject(e);
+    }
+  });
 
+const demux = (data: Uint8Array, name: string) =>
+  new Promise<Pick<Vid, "chunks" | "fps"> & { config: VideoDecoderConfig }>(
+    (resolve, reject) => {
       const file = createFile();
-      file.onError = console.error;
+      let config: VideoDecoderConfig;
+      file.onError = (error) => reject(new Error(`mp4box failed to parse ${name}: ${error}`));
       file.onReady = (info) => {
         const track = info.videoTracks[0];
-        onConfig({
+        if (!track) {
+          reject(new Error(`No video track found in ${name}`));
+          return;
+        }
+        config = {
           codec: track.codec.startsWith("vp08") ? "vp8" : track.codec,
           codedHeight: track.video.height,
           codedWidth: track.video.width,
           description: computeDescription(file, track.id),
-        });
+        };
         file.setExtractionOptions(track.id);
         file.start();
       };
@@ -433,27 +777,129 @@ export const computeChunks = (
             })
         );
 
-        resolve(chunks);
+        resolve({ config, chunks, fps: detectFrameRate(samples) });
       };
       const buffer = new ArrayBuffer(data.byteLength) as MP4ArrayBuffer;
       new Uint8Array(buffer).set(data);
       buffer.fileStart = 0;
       file.appendBuffer(buffer);
-    } catch (e) {
-      reject(e);
+      // Parsing is synchronous, so by now any samples have been resolved
+      reject(new Error(`No video samples found in ${name}`));
     }
+  );
+
+const sameBytes = (a: AllowSharedBufferSource, b: AllowSharedBufferSource) => {
+  const x = new Uint8Array(toArrayBuffer(a));
+  const y = new Uint8Array(toArrayBuffer(b));
+  return x.length === y.length && x.every((byte, i) => byte === y[i]);
+};
+
+// Re-encodes frame `index` of a vid as a standalone key chunk. With the same
+// encoder parameters x264 emits the same SPS/PPS, so the chunk slots into the
+// preprocessed stream; anything else is rejected rather than corrupting it
+export const encodeKeyframe = async (
+  ffmpeg: FFmpeg,
+  vid: Vid,
+  index: number,
+  settings: Settings,
+  config: VideoDecoderConfig
+) => {
+  const id = Math.random().toFixed(10).substring(2);
+  const inputName = `keyframe_input_${id}.mp4`;
+  const outputName = `keyframe_output_${id}.mp4`;
+  await ffmpeg.writeFile(inputName, await fetchFile(vid.file));
+  const exitCode = await ffmpeg.exec(
+    `-i ${inputName} -vf scale=${settings.width}:${settings.height},select=eq(n\\,${index}) -frames:v 1 ${PREPROCESS_ARGS} ${outputName}`.split(
+      " "
+    )
+  );
+  await ffmpeg.deleteFile(inputName);
+  if (exitCode !== 0) {
+    throw new Error(`ffmpeg exited with code ${exitCode} while re-encoding frame ${index} of ${vid.name}`);
+  }
+  const data = (await ffmpeg.readFile(outputName)) as Uint8Array;
+  await ffmpeg.deleteFile(outputName);
+
+  const encoded = await demux(data, `frame ${index} of ${vid.name}`);
+  const [key] = encoded.chunks;
+  if (!key || key.type !== "key") {
+    throw new Error(`No key chunk produced for frame ${index} of ${vid.name}`);
+  }
+  if (
+    !encoded.config.description ||
+    !config.description ||
+    !sameBytes(encoded.config.description, config.description)
+  ) {
+    throw new Error(`Re-encoded frame ${index} of ${vid.name} has different codec parameters`);
+  }
+  const original = vid.chunks[index];
+  const keyData = new ArrayBuffer(key.byteLength);
+  key.copyTo(keyData);
+  return new EncodedVideoChunk({
+    type: "key",
+    timestamp: original.timestamp,
+    duration: original.duration ?? undefined,
+    data: keyData,
   });
+};
+
+// Puts the timeline audio under a video with ffmpeg, `videoArgs` choosing
+// how the video stream is written. Temp files are removed even on failure
+const muxAudio = async (
+  ffmpeg: FFmpeg,
+  video: Blob,
+  audio: Blob,
+  videoArgs: string[],
+  what: string
+) => {
+  const timestamp = Date.now();
+  const videoFileName = `video_${timestamp}.mp4`;
+  const audioFileName = `audio_${timestamp}.wav`;
+  const outputFileName = `output_${timestamp}.mp4`;
+  try {
+    await ffmpeg.writeFile(videoFileName, new Uint8Array(await video.arrayBuffer()));
+    await ffmpeg.writeFile(audioFileName, new Uint8Array(await audio.arrayBuffer()));
+    const exitCode = await ffmpeg.exec([
+      '-i', videoFileName,
+      '-i', audioFileName,
+      '-map', '0:v:0',
+      '-map', '1:a:0',
+      ...videoArgs,
+      '-c:a', 'aac',
+      '-b:a', '128k',
+      '-shortest',
+      outputFileName
+    ]);
+    if (exitCode !== 0) {
+      throw new Error(`ffmpeg exited with code ${exitCode} while adding audio to the ${what}`);
+    }
+    const outputData = await ffmpeg.readFile(outputFileName) as Uint8Array;
+    return new Blob([outputData], { type: 'video/mp4' });
+  } finally {
+    // Files a failed run never wrote can't be deleted, which is fine
+    await Promise.all(
+      [videoFileName, audioFileName, outputFileName].map((name) =>
+        ffmpeg.deleteFile(name).catch(() => undefined)
+      )
+    );
+  }
+};
 
 // New function that records video with audio
 export const recordWithAudio = async (
   chunks: EncodedVideoChunk[],
+  holds: number[],
   config: VideoDecoderConfig,
   mimeType: string,
   settings: Settings,
+  frameRate: OutputFrameRate,
   segments: Segment[],
+  vids: Vid[],
   audioVolume: number,
   ffmpeg: FFmpeg,
-  onProgress: (progress: number) => unknown
+  mode: RenderMode,
+  onProgress: (progress: number) => unknown,
+  soundtrack?: File
 ): Promise<string> => {
   try {
     console.log('🎵 Starting video+audio rendering...');
@@ -469,188 +915,38 @@ export const recordWithAudio = async (
       audioVolume: s.audio?.volume
     })));
     
-    // First, record the video without audio using the existing record function
-    const videoSrc = await record(chunks, config, mimeType, settings, (progress) => {
+    // First, render the video without audio
+    const onVideoProgress = (progress: number) => {
       onProgress(progress * 0.7); // Video is 70% of total progress
-    });
+    };
+    const videoSrc = mode === "offline"
+      ? await encode(chunks, holds, config, settings, frameRate, onVideoProgress)
+      : await record(chunks, holds, config, mimeType, settings, frameRate, onVideoProgress);
 
     console.log('🎬 Video recording complete:', videoSrc);
     onProgress(0.7); // Video complete
     
     // Convert video URL to blob for FFmpeg processing
-    const videoResponse = await fetch(videoSrc);
-    const videoBlob = await videoResponse.blob();
+    const videoBlob = await (await fetch(videoSrc)).blob();
+    URL.revokeObjectURL(videoSrc);
     console.log('🎬 Video blob size:', videoBlob.size, 'bytes');
   
     // Generate audio for the timeline
-    const audioBlob = await generateTimelineAudio(segments, audioVolume);
+    const audioBlob = await generateTimelineAudio(segments, vids, frameRate, audioVolume, soundtrack);
     console.log('🎵 Audio blob size:', audioBlob.size, 'bytes');
-    console.log('🎵 Audio blob type:', audioBlob.type);
-    
-    // Test the WAV file by reading its header
-    const audioArray = new Uint8Array(await audioBlob.arrayBuffer());
-    const header = String.fromCharCode(...audioArray.slice(0, 12));
-    console.log('🎵 WAV file header check:', {
-      header: header,
-      isValidWAV: header.startsWith('RIFF') && header.includes('WAVE'),
-      fileSize: audioArray.length,
-      firstBytes: Array.from(audioArray.slice(0, 20)).map(b => b.toString(16).padStart(2, '0')).join(' ')
-    });
-    
     onProgress(0.8); // Audio generated
     
-    // Use FFmpeg to combine video and audio
-    // Force MP4 extension for better compatibility
-    const timestamp = Date.now();
-    const videoFileName = `video_${timestamp}.mp4`;
-    const audioFileName = `audio_${timestamp}.wav`;
-    const outputFileName = `output_${timestamp}.mp4`;
-    
-    console.log('🎵 File names:', { videoFileName, audioFileName, outputFileName });
-    
-    await ffmpeg.writeFile(videoFileName, new Uint8Array(await videoBlob.arrayBuffer()));
-    
-    // Try generating audio directly in FFmpeg as a test
-    const testAudioFileName = `test_audio_${timestamp}.wav`;
-    
-    // Generate a simple test tone with FFmpeg to compare
-    console.log('🎵 Generating test audio with FFmpeg...');
-    await ffmpeg.exec([
-      '-f', 'lavfi',
-      '-i', 'sine=frequency=440:duration=10',
-      '-ar', '44100',
-      '-ac', '1',
-      testAudioFileName
-    ]);
-    
-    await ffmpeg.writeFile(audioFileName, new Uint8Array(await audioBlob.arrayBuffer()));
-    console.log('🎵 Files written to FFmpeg (including test audio)');
-    
-    // Check if files exist in FFmpeg filesystem
-          try {
-        const videoFileInfo = await ffmpeg.readFile(videoFileName) as Uint8Array;
-        const audioFileInfo = await ffmpeg.readFile(audioFileName) as Uint8Array;
-        const testAudioFileInfo = await ffmpeg.readFile(testAudioFileName) as Uint8Array;
-        console.log('🎵 FFmpeg file verification:', {
-          videoFile: { name: videoFileName, size: videoFileInfo.byteLength },
-          audioFile: { name: audioFileName, size: audioFileInfo.byteLength },
-          testAudioFile: { name: testAudioFileName, size: testAudioFileInfo.byteLength }
-        });
-      } catch (error) {
-        console.error('🎵 Error reading files from FFmpeg:', error);
-      }
-    
-    onProgress(0.85); // Files written
-    
-    // Combine video and audio with FFmpeg
-    console.log('🎵 Starting FFmpeg processing...');
-    console.log('🎵 FFmpeg command:', [
-      '-i', videoFileName,
-      '-i', audioFileName,
-      '-c:v', 'copy',
-      '-c:a', 'aac',
-      '-shortest',
-      outputFileName
-    ]);
-    
-          try {
-        // First, let's probe the input files to see what FFmpeg sees
-        console.log('🎵 Probing input files...');
-        
-        // Try a different approach - let FFmpeg handle the audio conversion more explicitly
-        await ffmpeg.exec([
-          '-i', videoFileName,
-          '-i', audioFileName,
-          '-c:v', 'libx264',
-          '-c:a', 'aac',
-          '-b:a', '128k',
-          '-ar', '44100',
-          '-ac', '1',  // Force mono to match our generated audio
-          '-pix_fmt', 'yuv420p',
-          '-map', '0:v:0',  // Explicitly map video stream
-          '-map', '1:a:0',  // Explicitly map audio stream
-          '-shortest',
-          outputFileName
-        ]);
-        console.log('🎵 FFmpeg processing completed successfully');
-        
-        // Check if output file was created and has reasonable size
-        const outputCheck = await ffmpeg.readFile(outputFileName) as Uint8Array;
-        console.log('🎵 Output file check:', {
-          outputSize: outputCheck.byteLength,
-          outputExists: outputCheck.byteLength > 0
-        });
-      } catch (error) {
-        console.error('🎵 FFmpeg processing failed:', error);
-        console.log('🎵 Trying fallback FFmpeg command...');
-        
-        // Fallback: try with stream mapping
-        try {
-          await ffmpeg.exec([
-            '-i', videoFileName,
-            '-i', audioFileName,
-            '-map', '0:v',
-            '-map', '1:a',
-            '-c:v', 'libx264',
-            '-c:a', 'aac',
-            '-b:a', '128k',
-            '-ar', '44100',
-            '-shortest',
-            outputFileName
-          ]);
-          console.log('🎵 Fallback FFmpeg processing succeeded');
-        } catch (fallbackError) {
-          console.error('🎵 Fallback FFmpeg processing also failed:', fallbackError);
-          console.log('🎵 Trying with FFmpeg-generated test audio...');
-          
-          // Last resort: try with the FFmpeg-generated test audio
-          try {
-            await ffmpeg.exec([
-              '-i', videoFileName,
-              '-i', testAudioFileName,
-              '-c:v', 'libx264',
-              '-c:a', 'aac',
-              '-b:a', '128k',
-              '-ar', '44100',
-              '-ac', '1',
-              '-pix_fmt', 'yuv420p',
-              '-map', '0:v:0',
-              '-map', '1:a:0',
-              '-shortest',
-              outputFileName
-            ]);
-            console.log('🎵 Test audio FFmpeg processing succeeded!');
-          } catch (testError) {
-            console.error('🎵 Even test audio failed:', testError);
-            throw testError;
-          }
-        }
-      }
-    
-    onProgress(0.95); // FFmpeg processing complete
-    
-    // Read the final output
-    const outputData = await ffmpeg.readFile(outputFileName) as Uint8Array;
-    const finalBlob = new Blob([outputData], { type: 'video/mp4' });
+    // Offline renders hold one frame per chunk, so their video is copied as
+    // is. Recordings come from MediaRecorder and are re-encoded into MP4
+    const finalBlob = await muxAudio(
+      ffmpeg,
+      videoBlob,
+      audioBlob,
+      mode === "offline" ? ['-c:v', 'copy'] : ['-c:v', 'libx264', '-pix_fmt', 'yuv420p'],
+      'render'
+    );
     console.log('🎵 Final video+audio blob size:', finalBlob.size, 'bytes');
     
-    // Compare sizes to verify audio was added
-    console.log('🎵 Size comparison:', {
-      originalVideo: videoBlob.size,
-      audioOnly: audioBlob.size,
-      finalWithAudio: finalBlob.size,
-      sizeIncrease: finalBlob.size - videoBlob.size,
-      expectedIncrease: audioBlob.size
-    });
-    
-    // Clean up temporary files
-    await ffmpeg.deleteFile(videoFileName);
-    await ffmpeg.deleteFile(audioFileName);
-    await ffmpeg.deleteFile(outputFileName);
-    
-    // Clean up the temporary video URL
-    URL.revokeObjectURL(videoSrc);
-    
     onProgress(1.0); // Complete
     
     return URL.createObjectURL(finalBlob);
@@ -663,9 +959,11 @@ export const recordWithAudio = async (
 
 export const record = async (
   chunks: EncodedVideoChunk[],
+  holds: number[],
   config: VideoDecoderConfig,
   mimeType: string,
   settings: Settings,
+  frameRate: OutputFrameRate,
   onProgress: (progress: number) => unknown
 ) =>
   new Promise<string>((resolve) => {
@@ -690,8 +988,11 @@ export const record = async (
     });
     decoder.configure(config);
 
-    // Use a fixed frame rate stream
-    const stream = canvas.captureStream(FPS);
+    // Use a fixed frame rate stream when an output rate is chosen, otherwise
+    // capture a frame whenever the canvas changes
+    const stream = frameRate === "source"
+      ? canvas.captureStream()
+      : canvas.captureStream(frameRate);
     const recorder = new MediaRecorder(stream, { mimeType });
     recorder.addEventListener("dataavailable", (evt) => {
       // Clean up the last frame
@@ -709,8 +1010,8 @@ export const record = async (
     let i = 0;
     
     // Use high-precision timing with setTimeout
-    const frameInterval = 1000 / FPS; // Exactly 33.333... ms per frame
     let nextFrameTime = performance.now();
+    let frameInterval = 0;
     
     const scheduleNextFrame = () => {
       if (i >= chunks.length) {
@@ -723,6 +1024,7 @@ export const record = async (
       
       onProgress(i / chunks.length);
       decoder.decode(chunks[i]);
+      frameInterval = (chunkDuration(chunks[i], frameRate) + (holds[i] ?? 0)) / 1000;
       i++;
       
       // Schedule next frame with precise timing
@@ -736,3 +1038,178 @@ export const record = async (
     // Start processing
     scheduleNextFrame();
   });
+
+// Wait until a codec's internal queue has room, without relying on timers
+const waitForQueue = (
+  codec: VideoDecoder | VideoEncoder,
+  queueSize: () => number,
+  maxSize: number
+) =>
+  new Promise<void>((resolve) => {
+    const check = () => {
+      if (queueSize() > maxSize) return;
+      codec.removeEventListener("dequeue", check);
+      resolve();
+    };
+    codec.addEventListener("dequeue", check);
+    check();
+  });
+
+// Offline renderer: decodes every chunk and re-encodes it with an explicit
+// timestamp, so the output has exactly one frame per chunk and is not paced
+// by the wall clock
+export const encode = async (
+  chunks: EncodedVideoChunk[],
+  holds: number[],
+  config: VideoDecoderConfig,
+  settings: Settings,
+  frameRate: OutputFrameRate,
+  onProgress: (progress: number) => unknown
+): Promise<string> => {
+  const startTime = performance.now();
+  console.log('🎬 Starting offline encoding...', { chunks: chunks.length, settings });
+  const canvas = new OffscreenCanvas(settings.width, settings.height);
+  const ctx = canvas.getContext("2d")!;
+  const durations = chunks.map(
+    (chunk, i) => chunkDuration(chunk, frameRate) + (holds[i] ?? 0)
+  );
+  const averageFps = durations.length
+    ? (1e6 * durations.length) / durations.reduce((a, b) => a + b, 0)
+    : DEFAULT_FPS;
+  const keyFrameInterval = Math.round(averageFps * 2);
+
+  const samples: MuxSample[] = [];
+  let description: AllowSharedBufferSource | undefined;
+  let failure: unknown = null;
+
+  const encoder = new VideoEncoder({
+    error: (error) => {
+      failure = error;
+    },
+    output: (chunk, metadata) => {
+      if (metadata?.decoderConfig?.description) {
+        description = metadata.decoderConfig.description;
+      }
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      samples.push({
+        data,
+        duration: durations[samples.length],
+        isKey: chunk.type === "key",
+      });
+      onProgress(samples.length / chunks.length);
+    },
+  });
+  encoder.configure({
+    codec: "avc1.640028",
+    width: settings.width,
+    height: settings.height,
+    framerate: averageFps,
+    bitrate: Math.round(settings.width * settings.height * averageFps * 0.25),
+    avc: { format: "avc" },
+  });
+
+  let frameIndex = 0;
+  let timestamp = 0;
+  const decoder = new VideoDecoder({
+    error: (error) => {
+      failure = error;
+    },
+    output: (frame) => {
+      ctx.drawImage(frame, 0, 0);
+      frame.close();
+      const output = new VideoFrame(canvas, {
+        timestamp: Math.round(timestamp),
+        duration: Math.round(durations[frameIndex]),
+      });
+      encoder.encode(output, { keyFrame: frameIndex % keyFrameInterval === 0 });
+      output.close();
+      timestamp += durations[frameIndex];
+      frameIndex++;
+    },
+  });
+  decoder.configure(config);
+
+  for (const chunk of chunks) {
+    if (failure) break;
+    await waitForQueue(decoder, () => decoder.decodeQueueSize, 8);
+    await waitForQueue(encoder, () => encoder.encodeQueueSize, 8);
+    decoder.decode(chunk);
+  }
+
+  if (!failure) {
+    await decoder.flush();
+    await encoder.flush();
+  }
+  decoder.close();
+  encoder.close();
+
+  if (failure) throw failure;
+  if (!description) throw new Error("VideoEncoder did not output an avcC description");
+
+  const blob = muxSamples(samples, description, settings.width, settings.height);
+  const duration = (performance.now() - startTime) / 1000;
+  console.log(`🎬 Offline encoding complete in ${duration.toFixed(2)}s`, {
+    frames: samples.length,
+    size: blob.size,
+  });
+  onProgress(1);
+  return URL.createObjectURL(blob);
+};
+
+// Bitstream export: copies the moshed chunk sequence into an MP4 untouched,
+// only rewriting timestamps, so players glitch natively instead of showing a
+// baked re-encode
+export const remux = (
+  chunks: EncodedVideoChunk[],
+  holds: number[],
+  config: VideoDecoderConfig,
+  settings: Settings,
+  frameRate: OutputFrameRate
+): Blob => {
+  if (!config.codec.startsWith("avc1") || !config.description) {
+    throw new Error(`Bitstream export requires H.264 with an avcC description, got ${config.codec}`);
+  }
+  const samples = chunks.map((chunk, i) => {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    return {
+      data,
+      duration: chunkDuration(chunk, frameRate) + (holds[i] ?? 0),
+      isKey: chunk.type === "key",
+    };
+  });
+  const blob = muxSamples(
+    samples,
+    config.description,
+    config.codedWidth ?? settings.width,
+    config.codedHeight ?? settings.height
+  );
+  console.log('🎬 Bitstream remux complete', { frames: samples.length, size: blob.size });
+  return blob;
+};
+
+// Add the timeline audio to a bitstream export, copying the video stream so
+// ffmpeg never decodes the broken frames
+export const remuxWithAudio = async (
+  chunks: EncodedVideoChunk[],
+  holds: number[],
+  config: VideoDecoderConfig,
+  settings: Settings,
+  frameRate: OutputFrameRate,
+  segments: Segment[],
+  vids: Vid[],
+  audioVolume: number,
+  ffmpeg: FFmpeg,
+  onProgress: (progress: number) => unknown,
+  soundtrack?: File
+): Promise<string> => {
+  const videoBlob = remux(chunks, holds, config, settings, frameRate);
+  onProgress(0.3);
+  const audioBlob = await generateTimelineAudio(segments, vids, frameRate, audioVolume, soundtrack);
+  onProgress(0.6);
+
+  const output = await muxAudio(ffmpeg, videoBlob, audioBlob, ['-c:v', 'copy'], 'bitstream export');
+  onProgress(1);
+  return URL.createObjectURL(output);
+};
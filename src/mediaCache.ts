@@ -0,0 +1,169 @@
+import { PREPROCESS_ARGS } from "./lib";
+import { Settings, StillClip, Vid } from "./types";
+
+// Preprocessed chunks persisted in IndexedDB, keyed by file hash, settings and
+// encoder parameters so a changed encoder never serves stale chunks.
+// Metadata and payloads live in separate stores so listing stays cheap.
+
+const DB_NAME = "supermosh";
+const DB_VERSION = 1;
+const ENTRIES = "mediaEntries";
+const DATA = "mediaData";
+
+export type CachedMediaEntry = {
+  key: string;
+  name: string;
+  settings: Settings;
+  fps: number;
+  frames: number;
+  size: number; // bytes of chunk data plus source file
+  createdAt: number;
+};
+
+type StoredChunk = {
+  type: EncodedVideoChunkType;
+  timestamp: number;
+  duration: number;
+  data: ArrayBuffer;
+};
+
+type CachedMediaData = {
+  key: string;
+  file: File;
+  config: VideoDecoderConfig;
+  chunks: StoredChunk[];
+};
+
+export type CachedMedia = Pick<Vid, "file" | "chunks" | "fps"> & {
+  entry: CachedMediaEntry;
+  config: VideoDecoderConfig;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ENTRIES, { keyPath: "key" });
+      request.result.createObjectStore(DATA, { keyPath: "key" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const transaction = async (stores: string[], mode: IDBTransactionMode) =>
+  (await openDb()).transaction(stores, mode);
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const hashFile = async (file: File) => {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+export const mediaCacheKey = (
+  hash: string,
+  settings: Settings,
+  still?: StillClip
+) =>
+  `${hash}:${settings.width}x${settings.height}:${PREPROCESS_ARGS}` +
+  (still ? `:still${still.frames}@${still.fps}` : "");
+
+export const listCachedMedia = async () => {
+  const tx = await transaction([ENTRIES], "readonly");
+  const entries: CachedMediaEntry[] = await requestResult(
+    tx.objectStore(ENTRIES).getAll()
+  );
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getCachedMedia = async (
+  key: string
+): Promise<CachedMedia | null> => {
+  const tx = await transaction([ENTRIES, DATA], "readonly");
+  const [entry, data]: [
+    CachedMediaEntry | undefined,
+    CachedMediaData | undefined,
+  ] = await Promise.all([
+    requestResult(tx.objectStore(ENTRIES).get(key)),
+    requestResult(tx.objectStore(DATA).get(key)),
+  ]);
+  if (!entry || !data) return null;
+  return {
+    entry,
+    file: data.file,
+    fps: entry.fps,
+    config: data.config,
+    chunks: data.chunks.map((chunk) => new EncodedVideoChunk(chunk)),
+  };
+};
+
+export const putCachedMedia = async (
+  key: string,
+  name: string,
+  file: File,
+  settings: Settings,
+  config: VideoDecoderConfig,
+  { chunks, fps }: Pick<Vid, "chunks" | "fps">
+) => {
+  const stored = chunks.map((chunk): StoredChunk => {
+    const data = new ArrayBuffer(chunk.byteLength);
+    chunk.copyTo(data);
+    return {
+      type: chunk.type,
+      timestamp: chunk.timestamp,
+      duration: chunk.duration ?? 0,
+      data,
+    };
+  });
+  const entry: CachedMediaEntry = {
+    key,
+    name,
+    settings,
+    fps,
+    frames: chunks.length,
+    size: stored.reduce((total, chunk) => total + chunk.data.byteLength, file.size),
+    createdAt: Date.now(),
+  };
+  const data: CachedMediaData = { key, file, config, chunks: stored };
+  const tx = await transaction([ENTRIES, DATA], "readwrite");
+  tx.objectStore(ENTRIES).put(entry);
+  tx.objectStore(DATA).put(data);
+  await completion(tx);
+};
+
+export const deleteCachedMedia = async (key: string) => {
+  const tx = await transaction([ENTRIES, DATA], "readwrite");
+  tx.objectStore(ENTRIES).delete(key);
+  tx.objectStore(DATA).delete(key);
+  await completion(tx);
+};
+
+export const clearMediaCache = async () => {
+  const tx = await transaction([ENTRIES, DATA], "readwrite");
+  tx.objectStore(ENTRIES).clear();
+  tx.objectStore(DATA).clear();
+  await completion(tx);
+};
+
+export const estimateStorage = async () =>
+  navigator.storage?.estimate ? navigator.storage.estimate() : null;
@@ -79,6 +79,24 @@ declare module "mp4box" {
 
   export type MP4ArrayBuffer = ArrayBuffer & { fileStart: number };
 
+  interface MP4TrackOptions {
+    id?: number;
+    type?: string;
+    width?: number;
+    height?: number;
+    timescale?: number;
+    duration?: number;
+    brands?: string[];
+    avcDecoderConfigRecord?: ArrayBuffer;
+  }
+
+  interface MP4SampleOptions {
+    duration?: number;
+    dts?: number;
+    cts?: number;
+    is_sync?: boolean;
+  }
+
   export interface MP4File {
     onMoovStart?: () => void;
     onReady?: (info: MP4Info) => void;
@@ -96,6 +114,13 @@ declare module "mp4box" {
       options?: { nbSamples?: number; rapAlignment?: number }
     ): void;
     getTrackById(trackId: number);
+    addTrack(options: MP4TrackOptions): number;
+    addSample(
+      trackId: number,
+      data: Uint8Array,
+      options?: MP4SampleOptions
+    ): MP4Sample;
+    getBuffer(): ArrayBuffer;
   }
 
   export function createFile(): MP4File;
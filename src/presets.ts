@@ -0,0 +1,186 @@
+import { PresetParams, PresetStyle, SegmentPreset } from "./types";
+
+const PRESETS_KEY = "supermosh:presets";
+
+export const PRESET_STYLES: PresetStyle[] = [
+  "quick",
+  "echo",
+  "stutter",
+  "superchop",
+  "microstutter",
+];
+
+export const STYLE_NOTES: Record<PresetStyle, string> = {
+  quick: "Balanced segments, moderate repeats",
+  echo: "Long segments, high repeats, echo effects",
+  stutter: "Short segments, micro-stutters, high repeats",
+  superchop: "Rapid micro-cuts + elaborate expressive sections",
+  microstutter:
+    "Mix of 2-3 frame micro-stutters (20-50 repeats) + longer expressive sections (single play)",
+};
+
+// Odds of 1, 2, 3-4, 5-7 and 8-12 repeats, heavily favoring a single play
+export const DEFAULT_REPEAT_WEIGHTS = [80, 12, 5, 2, 1];
+
+const STYLE_DEFAULTS: Record<
+  PresetStyle,
+  Pick<PresetParams, "shortSegments" | "extraChance">
+> = {
+  quick: { shortSegments: 0.7, extraChance: 0 },
+  echo: { shortSegments: 0.4, extraChance: 0.3 },
+  stutter: { shortSegments: 0.9, extraChance: 0.4 },
+  superchop: { shortSegments: 0.6, extraChance: 0.4 },
+  microstutter: { shortSegments: 0.95, extraChance: 0.8 },
+};
+
+export const defaultPresetParams = (style: PresetStyle): PresetParams => ({
+  style,
+  ...STYLE_DEFAULTS[style],
+  repeatWeights: DEFAULT_REPEAT_WEIGHTS,
+  includeChance: 0.6,
+  includeChancePerVid: 0.15,
+  shuffle: true,
+});
+
+// Presets saved before styles were explicit got theirs from their name
+const legacyStyle = (name: string): PresetStyle => {
+  const lower = name.toLowerCase();
+  if (lower.includes("echo") || lower.includes("loop")) return "echo";
+  if (lower.includes("micro") && lower.includes("stutter")) return "microstutter";
+  if (lower.includes("stutter") || lower.includes("glitch")) return "stutter";
+  if (lower.includes("chop")) return "superchop";
+  return "quick";
+};
+
+// Shipped with the app and read-only, user presets live in localStorage
+export const BUILTIN_PRESETS: SegmentPreset[] = [
+  {
+    name: "7segmentOddTimings",
+    params: defaultPresetParams("quick"),
+    segments: [
+      { from: 0, to: 30, repeat: 1 },
+      { from: 29, to: 35, repeat: 30 },
+      { from: 34, to: 39, repeat: 1 },
+      { from: 37, to: 44, repeat: 15 },
+      { from: 40, to: 47, repeat: 1 },
+      { from: 46, to: 60, repeat: 5 },
+      { from: 58, to: 63, repeat: 30 }
+    ]
+  },
+  {
+    name: "basic",
+    params: defaultPresetParams("quick"),
+    segments: [
+      { from: 0, to: 72, repeat: 1 },
+      { from: 70, to: 77, repeat: 27 },
+      { from: 75, to: 85, repeat: 1 },
+      { from: 85, to: 89, repeat: 20 }
+    ]
+  },
+  {
+    name: "Quick Glitch",
+    params: defaultPresetParams("stutter"),
+    segments: [
+      { from: 0, to: 30, repeat: 1 },
+      { from: 10, to: 25, repeat: 3 },
+      { from: 30, to: 60, repeat: 1 }
+    ]
+  },
+  {
+    name: "Echo Loop",
+    params: defaultPresetParams("echo"),
+    segments: [
+      { from: 0, to: 20, repeat: 1 },
+      { from: 15, to: 35, repeat: 5 },
+      { from: 20, to: 40, repeat: 2 }
+    ]
+  },
+  {
+    name: "Stutter Effect",
+    params: defaultPresetParams("stutter"),
+    segments: [
+      { from: 0, to: 10, repeat: 1 },
+      { from: 5, to: 15, repeat: 8 },
+      { from: 10, to: 30, repeat: 1 }
+    ]
+  },
+  {
+    name: "Superchop",
+    params: defaultPresetParams("superchop"),
+    segments: [
+      { from: 0, to: 3, repeat: 4 },     // Micro-cut intro
+      { from: 8, to: 25, repeat: 1 },    // Elaborate section
+      { from: 2, to: 5, repeat: 6 },     // Rapid fire micro
+      { from: 15, to: 35, repeat: 1 },   // Extended elaborate
+      { from: 10, to: 12, repeat: 8 },   // Ultra-micro chop
+      { from: 30, to: 50, repeat: 2 }    // Final expressive
+    ]
+  },
+  {
+    name: "Micro Stutter",
+    params: defaultPresetParams("microstutter"),
+    segments: [
+      { from: 0, to: 2, repeat: 35 },    // 2-frame micro at start
+      { from: 10, to: 13, repeat: 25 },  // 3-frame micro in middle
+      { from: 20, to: 22, repeat: 40 },  // 2-frame intense stutter
+      { from: 25, to: 45, repeat: 1 },   // Longer expressive section (single play)
+      { from: 50, to: 53, repeat: 45 },  // 3-frame heavy repeat
+      { from: 60, to: 85, repeat: 1 },   // Another longer section (single play)
+      { from: 90, to: 92, repeat: 30 },  // 2-frame stutter
+      { from: 100, to: 120, repeat: 1 }, // Final longer section (single play)
+      { from: 125, to: 127, repeat: 25 } // Final micro stutter
+    ]
+  }
+];
+
+export const loadUserPresets = (): SegmentPreset[] => {
+  try {
+    const saved = localStorage.getItem(PRESETS_KEY);
+    return saved ? parsePresets(saved) : [];
+  } catch (error) {
+    console.warn("Ignoring unreadable presets:", error);
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: SegmentPreset[]) => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn("Failed to save presets:", error);
+  }
+};
+
+const isPreset = (value: unknown): value is SegmentPreset => {
+  const preset = value as SegmentPreset;
+  return (
+    typeof preset?.name === "string" &&
+    (preset.params === undefined || PRESET_STYLES.includes(preset.params.style)) &&
+    Array.isArray(preset.segments) &&
+    preset.segments.every(
+      (segment) =>
+        Number.isInteger(segment?.from) &&
+        Number.isInteger(segment.to) &&
+        Number.isInteger(segment.repeat)
+    )
+  );
+};
+
+// Reads an exported file, which holds either one preset or a list of them.
+// Parameters missing from older files fall back to their style's defaults
+export const parsePresets = (text: string): SegmentPreset[] => {
+  const data: unknown = JSON.parse(text);
+  const presets = Array.isArray(data) ? data : [data];
+  if (!presets.every(isPreset)) throw new Error("Not a preset file");
+  return presets.map(({ name, segments, params }) => ({
+    name,
+    segments: segments.map(({ from, to, repeat }) => ({ from, to, repeat })),
+    params: {
+      ...defaultPresetParams(params?.style ?? legacyStyle(name)),
+      ...params,
+    },
+  }));
+};
+
+export const exportPresets = (presets: SegmentPreset[]) =>
+  new Blob([JSON.stringify(presets, null, 2)], { type: "application/json" });
@@ -0,0 +1,235 @@
+import { getCachedMedia } from "./mediaCache";
+import {
+  OutputFrameRate,
+  ProjectManifest,
+  Sample,
+  Segment,
+  Settings,
+  StillClip,
+  Vid,
+} from "./types";
+import { createZip, readZip } from "./zip";
+
+export const PROJECT_EXTENSION = "supermosh";
+
+const PROJECT_VERSION = 1;
+const MANIFEST = "project.json";
+const AUTOSAVE_KEY = "supermosh:autosave";
+const PREVIOUS_SESSION_KEY = "supermosh:previous-session";
+
+export type ProjectState = {
+  vids: Vid[];
+  segments: Segment[];
+  settings: Settings;
+  preprocessSettings: Settings;
+  frameRate: OutputFrameRate;
+  samples: Sample[];
+};
+
+export type LoadedProject = {
+  manifest: ProjectManifest;
+  // Segments with sample urls rebound to the bundled samples
+  segments: Segment[];
+  files: { file: File; name: string; still?: StillClip }[];
+  samples: Sample[];
+  missingSamples: string[];
+};
+
+// Points segment audio at new sample urls, keyed by the url it was saved with
+export const rebindSamples = (
+  segments: Segment[],
+  sampleUrls: Map<string, string>
+) =>
+  segments.map((segment) =>
+    segment.audio?.sampleUrl && sampleUrls.has(segment.audio.sampleUrl)
+      ? {
+          ...segment,
+          audio: {
+            ...segment.audio,
+            sampleUrl: sampleUrls.get(segment.audio.sampleUrl),
+          },
+        }
+      : segment
+  );
+
+// Uploaded samples are saved with blob urls that die with the page, so they
+// are matched back by name to the samples loaded now, built-in ones included
+export const matchSamples = (
+  saved: ProjectManifest["samples"],
+  samples: Sample[]
+) => {
+  const sampleUrls = new Map<string, string>();
+  const unmatched: ProjectManifest["samples"] = [];
+  for (const sample of saved) {
+    const match = samples.find(({ name }) => name === sample.name);
+    if (match) sampleUrls.set(sample.url, match.url);
+    else unmatched.push(sample);
+  }
+  return { sampleUrls, unmatched };
+};
+
+const entryPath = (dir: string, index: number, name: string) =>
+  `${dir}/${index}_${name.replace(/[/\\]/g, "_")}`;
+
+const createManifest = ({
+  vids,
+  segments,
+  settings,
+  preprocessSettings,
+  frameRate,
+  samples,
+}: ProjectState): ProjectManifest => ({
+  version: PROJECT_VERSION,
+  settings,
+  preprocessSettings,
+  frameRate,
+  segments,
+  vids: vids.map(({ name, fps, cacheKey, still }) => ({
+    name,
+    fps,
+    cacheKey,
+    still,
+  })),
+  // Built-in samples are served by the app, only uploaded ones are listed
+  samples: samples
+    .filter((sample) => sample.file)
+    .map(({ name, url }) => ({ name, url })),
+});
+
+export const saveProject = async (state: ProjectState, includeMedia: boolean) => {
+  const manifest = createManifest(state);
+  const entries: { name: string; data: Blob }[] = [];
+  if (includeMedia) {
+    manifest.vids.forEach((vid, i) => {
+      vid.path = entryPath("media", i, vid.name);
+      entries.push({ name: vid.path, data: state.vids[i].file });
+    });
+    const files = state.samples.flatMap(({ file }) => (file ? [file] : []));
+    manifest.samples.forEach((sample, i) => {
+      sample.path = entryPath("samples", i, files[i].name);
+      entries.push({ name: sample.path, data: files[i] });
+    });
+  }
+  return createZip([
+    {
+      name: MANIFEST,
+      data: new Blob([JSON.stringify(manifest, null, 2)], {
+        type: "application/json",
+      }),
+    },
+    ...entries,
+  ]);
+};
+
+export const loadProject = async (bundle: Blob): Promise<LoadedProject> => {
+  const files = await readZip(bundle);
+  const manifestFile = files.get(MANIFEST);
+  if (!manifestFile) throw new Error(`Bundle has no ${MANIFEST}`);
+  const manifest: ProjectManifest = JSON.parse(await manifestFile.text());
+  if (!(manifest.version <= PROJECT_VERSION)) {
+    throw new Error(`Unsupported project version ${manifest.version}`);
+  }
+
+  const bundled = (path?: string) => (path ? files.get(path) : undefined);
+
+  const samples: Sample[] = [];
+  const sampleUrls = new Map<string, string>();
+  const missingSamples: string[] = [];
+  for (const { name, url, path } of manifest.samples) {
+    const data = bundled(path);
+    if (!data) {
+      missingSamples.push(name);
+      continue;
+    }
+    const file = new File([data], path!.replace(/^samples\/\d+_/, ""));
+    const sample = { name, url: URL.createObjectURL(file), file };
+    sampleUrls.set(url, sample.url);
+    samples.push(sample);
+  }
+
+  return {
+    manifest,
+    segments: rebindSamples(manifest.segments, sampleUrls),
+    files: manifest.vids.flatMap(({ name, path, still }) => {
+      const data = bundled(path);
+      return data ? [{ file: new File([data], name), name, still }] : [];
+    }),
+    samples,
+    missingSamples,
+  };
+};
+
+// Autosaves keep only the manifest, vids are restored from the media cache
+export const autosaveProject = (
+  state: ProjectState,
+  // Restored samples not uploaded again yet, kept for the next restore
+  unbound: ProjectManifest["samples"] = []
+) => {
+  const manifest = createManifest(state);
+  manifest.samples.push(...unbound);
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(manifest));
+  } catch (error) {
+    console.warn("Autosave failed:", error);
+  }
+};
+
+const readSession = (key: string): ProjectManifest | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    const manifest: ProjectManifest | null = saved ? JSON.parse(saved) : null;
+    if (!manifest || !(manifest.version <= PROJECT_VERSION)) return null;
+    return manifest.segments.length > 0 || manifest.vids.length > 0
+      ? manifest
+      : null;
+  } catch (error) {
+    console.warn("Ignoring unreadable autosave:", error);
+    return null;
+  }
+};
+
+// The session offered for restore when the app opens. The last autosave is
+// moved to its own key so this session autosaves from the start without
+// overwriting it, and the offer survives a reload until it's taken up
+export const takePreviousSession = () => {
+  const saved = readSession(AUTOSAVE_KEY);
+  if (saved) {
+    try {
+      localStorage.setItem(PREVIOUS_SESSION_KEY, JSON.stringify(saved));
+      localStorage.removeItem(AUTOSAVE_KEY);
+    } catch (error) {
+      console.warn("Couldn't set the previous session aside:", error);
+      return saved;
+    }
+  }
+  return readSession(PREVIOUS_SESSION_KEY);
+};
+
+export const clearPreviousSession = () =>
+  localStorage.removeItem(PREVIOUS_SESSION_KEY);
+
+export const restoreCachedVids = async (manifest: ProjectManifest) => {
+  const vids: Vid[] = [];
+  const missing: string[] = [];
+  let config: VideoDecoderConfig | null = null;
+  for (const { name, cacheKey, still } of manifest.vids) {
+    const media = cacheKey
+      ? await getCachedMedia(cacheKey).catch(() => null)
+      : null;
+    if (!media) {
+      missing.push(name);
+      continue;
+    }
+    config ??= media.config;
+    vids.push({
+      file: media.file,
+      name,
+      src: URL.createObjectURL(media.file),
+      chunks: media.chunks,
+      fps: media.fps,
+      cacheKey,
+      still,
+    });
+  }
+  return { vids, config, missing };
+};
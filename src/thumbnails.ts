@@ -0,0 +1,56 @@
+import { Vid } from "./types";
+
+const THUMBNAIL_HEIGHT = 48;
+
+// Thumbnails are grabbed by seeking a hidden video element, one per source,
+// with seeks on the same source run one after another
+const thumbnails = new Map<string, Promise<string>>();
+const players = new Map<string, Promise<HTMLVideoElement>>();
+const queues = new Map<string, Promise<unknown>>();
+
+const loadPlayer = (src: string) => {
+  let player = players.get(src);
+  if (!player) {
+    player = new Promise<HTMLVideoElement>((resolve, reject) => {
+      const video = document.createElement("video");
+      video.muted = true;
+      video.preload = "auto";
+      video.onloadeddata = () => resolve(video);
+      video.onerror = () => reject(video.error);
+      video.src = src;
+    });
+    players.set(src, player);
+  }
+  return player;
+};
+
+const capture = async (vid: Vid, i: number) => {
+  const video = await loadPlayer(vid.src);
+  const chunk = vid.chunks[i];
+  video.currentTime = (chunk.timestamp - vid.chunks[0].timestamp) / 1e6;
+  await new Promise((resolve) => (video.onseeked = resolve));
+  const canvas = document.createElement("canvas");
+  canvas.height = THUMBNAIL_HEIGHT;
+  canvas.width = Math.round(
+    (THUMBNAIL_HEIGHT * video.videoWidth) / video.videoHeight
+  );
+  canvas.getContext("2d")!.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.7);
+};
+
+export const getThumbnail = (vid: Vid, i: number) => {
+  const index = Math.max(0, Math.min(vid.chunks.length - 1, i));
+  const key = `${vid.src}#${index}`;
+  let thumbnail = thumbnails.get(key);
+  if (!thumbnail) {
+    thumbnail = (queues.get(vid.src) ?? Promise.resolve())
+      .then(() => capture(vid, index))
+      .catch((error) => {
+        console.warn(`Failed to grab thumbnail ${index} of ${vid.name}:`, error);
+        return "";
+      });
+    queues.set(vid.src, thumbnail);
+    thumbnails.set(key, thumbnail);
+  }
+  return thumbnail;
+};
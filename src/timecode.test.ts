@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+
+import { formatTimecode, parseTimecode } from "./timecode";
+
+describe("parseTimecode", () => {
+  it("reads frames, seconds and mm:ss:ff", () => {
+    expect(parseTimecode("42", 25)).toBe(42);
+    expect(parseTimecode("1.5s", 25)).toBe(38);
+    expect(parseTimecode("01:02:24", 25)).toBe(62 * 25 + 24);
+  });
+
+  it("rejects frames and seconds past the end of their second or minute", () => {
+    expect(parseTimecode("01:02:25", 25)).toBeNull();
+    expect(parseTimecode("01:02:40", 25)).toBeNull();
+    expect(parseTimecode("00:60:00", 25)).toBeNull();
+  });
+
+  it("round-trips fractional rates without drifting", () => {
+    for (let frame = 0; frame < 2000; frame += 7) {
+      expect(parseTimecode(formatTimecode(frame / 29.97, 29.97), 29.97)).toBe(frame);
+    }
+  });
+});
@@ -0,0 +1,37 @@
+// Timecodes are mm:ss:ff, ff being the frame within its second. With
+// fractional rates like 29.97 a second starts on the first frame at or after
+// it, so ff restarts at 0 every second without drifting
+
+const secondStart = (second: number, fps: number) => Math.ceil(second * fps - 1e-9);
+
+const pad = (n: number) => `${n}`.padStart(2, "0");
+
+// Timecode of the frame shown at `seconds`
+export const formatTimecode = (seconds: number, fps: number) => {
+  const frame = Math.round(seconds * fps);
+  const second = Math.floor(frame / fps + 1e-9);
+  const ff = frame - secondStart(second, fps);
+  return `${pad(Math.floor(second / 60))}:${pad(second % 60)}:${pad(ff)}`;
+};
+
+export const formatSeconds = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+// Frame number from a frame number, seconds like "1.5s" or mm:ss:ff. null if
+// the text is none of those, or ss or ff is past the end of its minute or
+// second
+export const parseTimecode = (text: string, fps: number) => {
+  const value = text.trim();
+  if (/^\d+$/.test(value)) return parseInt(value);
+  const seconds = /^(\d+(?:\.\d+)?)s$/.exec(value);
+  if (seconds) return Math.round(parseFloat(seconds[1]) * fps);
+  const timecode = /^(\d+):(\d{1,2}):(\d{1,2})$/.exec(value);
+  if (timecode) {
+    const [, mm, ss, ff] = timecode.map(Number);
+    const second = mm * 60 + ss;
+    if (ss >= 60 || ff >= secondStart(second + 1, fps) - secondStart(second, fps)) {
+      return null;
+    }
+    return secondStart(second, fps) + ff;
+  }
+  return null;
+};
@@ -8,14 +8,50 @@ export type Vid = {
   file: File;
   name: string;
   chunks: EncodedVideoChunk[];
+  fps: number;
+  cacheKey?: string; // media cache entry holding these chunks
+  keyframes?: Record<number, EncodedVideoChunk>; // re-encoded key chunks by frame
+  keyframeErrors?: Record<number, string>; // why frames failed to re-encode
+  cuts?: number[]; // frames starting a new scene, once analysed
+  still?: StillClip; // set when the source is an image looped into a clip
 };
 
+// A still image encoded as a clip of `frames` frames, one key chunk followed
+// by deltas that change nothing
+export type StillClip = {
+  frames: number;
+  fps: number;
+};
+
+// What happens to key chunks inside a segment: "keep" them as they are,
+// "drop" them to force the mosh, or "force" a fresh one at the segment start
+export type KeyframePolicy = "keep" | "drop" | "force";
+
+// Order in which a segment feeds its chunks, applied before decoding.
+// Pattern offsets are relative to `from` and the pattern repeats, shifted by
+// its own span, until the range runs out
+export type PlaybackMode =
+  | { mode: "forward" }
+  | { mode: "reverse" }
+  | { mode: "pingpong" }
+  | { mode: "skip"; step: number }
+  | { mode: "pattern"; pattern: number[] };
+
 export type Segment = {
   name: string;
   from: number;
   to: number;
   repeat: number;
   audio?: AudioSegment;
+  // Defaults to "keep". Set explicitly when a segment opens on a key chunk on
+  // purpose, which silences the warning about it
+  keyframes?: KeyframePolicy;
+  playback?: PlaybackMode; // defaults to forward
+  // Hold segments feed no chunks and freeze the last decoded frame for this
+  // many frames of their vid instead of playing from..to
+  hold?: number;
+  seed?: number; // seed of the preset roll that generated this segment
+  locked?: boolean; // kept in place when a preset is re-rolled
 };
 
 export type Settings = {
@@ -23,6 +59,133 @@ export type Settings = {
   height: number;
 };
 
+export type PreprocessStatus =
+  | "queued"
+  | "transcoding"
+  | "demuxing"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export type PreprocessJob = {
+  id: number;
+  file: File;
+  name: string;
+  settings: Settings;
+  still?: StillClip;
+  status: PreprocessStatus;
+  progress: number;
+  eta?: number; // seconds
+  error?: string;
+  cached?: boolean;
+};
+
+// Everything covered by undo/redo
+export type EditState = {
+  segments: Segment[];
+  settings: Settings;
+  frameRate: OutputFrameRate;
+};
+
+export type RenderMode = "realtime" | "offline" | "bitstream";
+
+// Output frame rate, or "source" to keep each chunk's own duration
+export type OutputFrameRate = number | "source";
+
+// One output frame of a compiled timeline. Times are in microseconds
+export type PlannedFrame = {
+  segment: number; // index of the segment in the timeline
+  repeat: number; // which play of that segment
+  // Chunk fed to the decoder for this frame, which is a re-encoded key chunk
+  // when one was forced. null while a hold freezes the previous frame
+  source: { vid: Vid; index: number; chunk: EncodedVideoChunk } | null;
+  timestamp: number;
+  duration: number;
+};
+
+// Audio of one play of a segment, over the frames of that play
+export type PlannedAudio = {
+  segment: number;
+  repeat: number;
+  audio: AudioSegment;
+  timestamp: number; // microseconds
+  duration: number; // microseconds
+};
+
+// Everything needed to play a timeline, from compileTimeline
+export type TimelinePlan = {
+  frames: PlannedFrame[];
+  segmentStarts: number[]; // first frame of each segment
+  audio: PlannedAudio[];
+  duration: number; // microseconds
+};
+
+export type Sample = {
+  name: string;
+  url: string;
+  file?: File;
+};
+
+// Contents of project.json inside a .supermosh bundle. Media paths point at
+// other entries of the bundle and are absent when media was left out
+export type ProjectManifest = {
+  version: number;
+  settings: Settings;
+  preprocessSettings: Settings;
+  frameRate: OutputFrameRate;
+  segments: Segment[];
+  vids: {
+    name: string;
+    fps: number;
+    path?: string;
+    cacheKey?: string;
+    still?: StillClip;
+  }[];
+  samples: { name: string; url: string; path?: string }[];
+};
+
+// Decides which extra segments a preset sprinkles in when applied
+export type PresetStyle =
+  | "quick"
+  | "echo"
+  | "stutter"
+  | "superchop"
+  | "microstutter";
+
+// How a preset is spread over the vids, all chances are between 0 and 1
+export type PresetParams = {
+  style: PresetStyle;
+  shortSegments: number; // chance a segment is shrunk rather than stretched
+  repeatWeights: number[]; // relative odds of repeating 1, 2, 3-4, 5-7 or 8-12 times
+  includeChance: number; // chance each preset segment is used on the first vid
+  includeChancePerVid: number; // added to includeChance for every later vid
+  extraChance: number; // chance of adding the style's extra segments
+  shuffle: boolean; // shuffle the vids and the resulting segments
+};
+
+// A fix for a timeline problem replaces its segment, or deletes it when null
+export type IssueFix = {
+  label: string;
+  segment: Segment | null;
+};
+
+// Problem found in one segment of the timeline. Errors block rendering
+export type TimelineIssue = {
+  segment: number;
+  severity: "error" | "warning";
+  message: string;
+  fixes: IssueFix[];
+};
+
+// Length in seconds a generated timeline is fitted to, min === max for an
+// exact length. Too long timelines are always truncated, too short ones are
+// stretched by scaling repeats or padded with more generated segments
+export type LengthTarget = {
+  min: number;
+  max: number;
+  fill: "truncate" | "scale" | "pad";
+};
+
 export type SegmentPreset = {
   name: string;
   segments: Array<{
@@ -30,6 +193,7 @@ export type SegmentPreset = {
     to: number;
     repeat: number;
   }>;
+  params: PresetParams;
 };
 
 export type AudioAnalysis = {
@@ -0,0 +1,70 @@
+import { FFmpeg } from "@ffmpeg/ffmpeg";
+import { Dispatch, SetStateAction, useEffect, useRef, useState } from "react";
+
+import { encodeKeyframe, pendingKeyframes } from "./lib";
+import { Segment, Settings, Vid } from "./types";
+
+// Re-encodes the keyframes asked for by "force" segments in the background
+// and stores them, or why they failed, on their vid. Returns how many are
+// still missing
+export const useForcedKeyframes = ({
+  ffmpeg,
+  ready,
+  segments,
+  vids,
+  setVids,
+  settings,
+  config,
+}: {
+  ffmpeg: FFmpeg;
+  ready: boolean;
+  segments: Segment[];
+  vids: Vid[];
+  setVids: Dispatch<SetStateAction<Vid[]>>;
+  settings: Settings;
+  config: VideoDecoderConfig | null;
+}) => {
+  const runningRef = useRef(false);
+  const [finished, setFinished] = useState(0);
+  // Frames that failed once are not retried until their vid is reprocessed
+  const pending = pendingKeyframes(segments, vids);
+
+  // One keyframe at a time, finishing one re-runs the effect for the next.
+  // Results are kept even if segments changed meanwhile, they're cheap to hold
+  const [next] = pending;
+  useEffect(() => {
+    if (!ready || !config || !next || runningRef.current) return;
+    const { vid, index } = next;
+    runningRef.current = true;
+    encodeKeyframe(ffmpeg, vid, index, settings, config)
+      .then(
+        (chunk) => {
+          console.log(`🔑 Forced keyframe at frame ${index} of ${vid.name}`);
+          setVids((prev) =>
+            prev.map((v) =>
+              v.chunks === vid.chunks
+                ? { ...v, keyframes: { ...v.keyframes, [index]: chunk } }
+                : v
+            )
+          );
+        },
+        (error) => {
+          console.error(`❌ Failed to force keyframe ${index} of ${vid.name}:`, error);
+          const message = error instanceof Error ? error.message : `${error}`;
+          setVids((prev) =>
+            prev.map((v) =>
+              v.chunks === vid.chunks
+                ? { ...v, keyframeErrors: { ...v.keyframeErrors, [index]: message } }
+                : v
+            )
+          );
+        }
+      )
+      .finally(() => {
+        runningRef.current = false;
+        setFinished((n) => n + 1);
+      });
+  }, [next, finished, ready, config, ffmpeg, settings, setVids]);
+
+  return pending.length;
+};
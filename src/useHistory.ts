@@ -0,0 +1,106 @@
+import { SetStateAction, useCallback, useRef, useState } from "react";
+
+export type HistoryEntry<T> = {
+  label: string;
+  state: T;
+  time: number;
+};
+
+type FieldSetter<V> = (action: SetStateAction<V>, label?: string) => void;
+
+const HISTORY_LIMIT = 100;
+
+// Consecutive edits with the same label collapse into one entry when they
+// land this close together, so typing into a number field is a single step
+const COALESCE_WINDOW = 1000;
+
+// Linear undo history over immutable snapshots. Committing after an undo
+// drops the undone entries
+export const useHistory = <T>(initial: T) => {
+  const [history, setHistory] = useState(() => ({
+    entries: [{ label: "Start", state: initial, time: Date.now() }],
+    index: 0,
+  }));
+
+  const commit = useCallback(
+    (label: string, update: (state: T) => T) =>
+      setHistory((prev) => {
+        const current = prev.entries[prev.index];
+        const state = update(current.state);
+        if (state === current.state) return prev;
+        const time = Date.now();
+        const entries = prev.entries.slice(0, prev.index + 1);
+        if (
+          prev.index > 0 &&
+          prev.index === prev.entries.length - 1 &&
+          current.label === label &&
+          time - current.time < COALESCE_WINDOW
+        ) {
+          entries[prev.index] = { label, state, time };
+          return { entries, index: prev.index };
+        }
+        const next = [...entries, { label, state, time }].slice(-HISTORY_LIMIT);
+        return { entries: next, index: next.length - 1 };
+      }),
+    []
+  );
+
+  // A setState-compatible setter for one field of the snapshot. Setters are
+  // kept per field and label so they stay the same across renders
+  const settersRef = useRef(new Map<string, unknown>());
+  const setField = useCallback(
+    <K extends keyof T>(key: K, defaultLabel: string) => {
+      const id = `${String(key)}\n${defaultLabel}`;
+      const cached = settersRef.current.get(id) as FieldSetter<T[K]> | undefined;
+      if (cached) return cached;
+      const setter: FieldSetter<T[K]> = (action, label = defaultLabel) =>
+        commit(label, (state) => {
+          const value =
+            typeof action === "function"
+              ? (action as (prev: T[K]) => T[K])(state[key])
+              : action;
+          return value === state[key] ? state : { ...state, [key]: value };
+        });
+      settersRef.current.set(id, setter);
+      return setter;
+    },
+    [commit]
+  );
+
+  const jump = useCallback(
+    (index: number) =>
+      setHistory((prev) =>
+        index >= 0 && index < prev.entries.length ? { ...prev, index } : prev
+      ),
+    []
+  );
+  const undo = useCallback(
+    () =>
+      setHistory((prev) =>
+        prev.index > 0 ? { ...prev, index: prev.index - 1 } : prev
+      ),
+    []
+  );
+  const redo = useCallback(
+    () =>
+      setHistory((prev) =>
+        prev.index < prev.entries.length - 1
+          ? { ...prev, index: prev.index + 1 }
+          : prev
+      ),
+    []
+  );
+
+  return {
+    state: history.entries[history.index].state,
+    entries: history.entries,
+    index: history.index,
+    commit,
+    setField,
+    jump,
+    undo,
+    redo,
+  };
+};
+
+export type History<T> = ReturnType<typeof useHistory<T>>;
@@ -0,0 +1,217 @@
+import { FFmpeg } from "@ffmpeg/ffmpeg";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { computeChunks, loadFFmpeg } from "./lib";
+import {
+  getCachedMedia,
+  hashFile,
+  mediaCacheKey,
+  putCachedMedia,
+} from "./mediaCache";
+import { PreprocessJob, Settings, StillClip, Vid } from "./types";
+
+// A transcode fails when ffmpeg reports no progress for this long. Hashing,
+// loading ffmpeg and demuxing aren't watched, they report no progress
+const STALL_TIMEOUT = 60_000;
+
+const CANCELLED = "cancelled";
+
+let nextJobId = 0;
+
+export const isActiveJob = (job: PreprocessJob) =>
+  job.status === "queued" ||
+  job.status === "transcoding" ||
+  job.status === "demuxing";
+
+// Runs preprocessing jobs one at a time on a dedicated ffmpeg worker, which
+// is terminated and reloaded whenever a job is cancelled or stalls. Files
+// already in the media cache skip ffmpeg entirely
+export const usePreprocessQueue = ({
+  onConfig,
+  onDone,
+  onCached,
+}: {
+  onConfig: (config: VideoDecoderConfig) => unknown;
+  onDone: (
+    job: PreprocessJob,
+    result: Pick<Vid, "chunks" | "fps" | "cacheKey">
+  ) => unknown;
+  onCached?: () => unknown;
+}) => {
+  const [jobs, setJobs] = useState<PreprocessJob[]>([]);
+  const ffmpegRef = useRef<FFmpeg | null>(null);
+  const runningRef = useRef<{ id: number; controller: AbortController } | null>(
+    null
+  );
+  const callbacksRef = useRef({ onConfig, onDone, onCached });
+  useEffect(() => {
+    callbacksRef.current = { onConfig, onDone, onCached };
+  }, [onConfig, onDone, onCached]);
+
+  const updateJob = useCallback(
+    (id: number, patch: Partial<PreprocessJob>) =>
+      setJobs((prev) =>
+        prev.map((job) => (job.id === id ? { ...job, ...patch } : job))
+      ),
+    []
+  );
+
+  const runJob = useCallback(
+    async (job: PreprocessJob) => {
+      const controller = new AbortController();
+      runningRef.current = { id: job.id, controller };
+      const startedAt = performance.now();
+
+      let watchdog = 0;
+      const resetWatchdog = () => {
+        clearTimeout(watchdog);
+        watchdog = window.setTimeout(
+          () =>
+            controller.abort(
+              new Error(`No progress for ${STALL_TIMEOUT / 1000}s, timed out`)
+            ),
+          STALL_TIMEOUT
+        );
+      };
+      const onProgress = ({ progress }: { progress: number }) => {
+        resetWatchdog();
+        const clamped = Math.max(0, Math.min(1, progress));
+        const elapsed = (performance.now() - startedAt) / 1000;
+        updateJob(job.id, {
+          progress: clamped,
+          eta: clamped > 0 ? (elapsed * (1 - clamped)) / clamped : undefined,
+        });
+      };
+
+      let patch: Partial<PreprocessJob>;
+      let result: Pick<Vid, "chunks" | "fps" | "cacheKey"> | null = null;
+      try {
+        const key = mediaCacheKey(
+          await hashFile(job.file),
+          job.settings,
+          job.still
+        );
+        const cached = await getCachedMedia(key).catch((error) => {
+          console.warn("Media cache unavailable:", error);
+          return null;
+        });
+        controller.signal.throwIfAborted();
+
+        if (cached) {
+          callbacksRef.current.onConfig(cached.config);
+          result = { chunks: cached.chunks, fps: cached.fps, cacheKey: key };
+          patch = { status: "done", progress: 1, eta: 0, cached: true };
+        } else {
+          if (!ffmpegRef.current?.loaded) {
+            ffmpegRef.current = new FFmpeg();
+            await loadFFmpeg(ffmpegRef.current);
+          }
+          ffmpegRef.current.on("progress", onProgress);
+          let config: VideoDecoderConfig | null = null;
+          const computed = await computeChunks(
+            ffmpegRef.current,
+            job.file,
+            job.name,
+            job.settings.width,
+            job.settings.height,
+            (newConfig) => {
+              config = newConfig;
+              callbacksRef.current.onConfig(newConfig);
+            },
+            {
+              signal: controller.signal,
+              still: job.still,
+              onStatus: (status) => {
+                if (status === "transcoding") resetWatchdog();
+                else clearTimeout(watchdog);
+                updateJob(job.id, { status });
+              },
+            }
+          );
+          result = { ...computed, cacheKey: key };
+          if (config) {
+            putCachedMedia(key, job.name, job.file, job.settings, config, computed)
+              .then(() => callbacksRef.current.onCached?.())
+              .catch((error) => console.warn("Failed to cache media:", error));
+          }
+          patch = { status: "done", progress: 1, eta: 0 };
+        }
+      } catch (error) {
+        console.error(`❌ Failed to process ${job.name}:`, error);
+        patch =
+          controller.signal.reason === CANCELLED
+            ? { status: "cancelled", eta: undefined }
+            : {
+                status: "failed",
+                eta: undefined,
+                error: error instanceof Error ? error.message : `${error}`,
+              };
+      }
+
+      clearTimeout(watchdog);
+      ffmpegRef.current?.off("progress", onProgress);
+      if (controller.signal.aborted) {
+        // An aborted exec keeps running inside ffmpeg, so the worker has to go
+        ffmpegRef.current?.terminate();
+        ffmpegRef.current = null;
+      }
+      runningRef.current = null;
+      updateJob(job.id, patch);
+      if (result) callbacksRef.current.onDone(job, result);
+    },
+    [updateJob]
+  );
+
+  useEffect(() => {
+    if (runningRef.current) return;
+    const next = jobs.find((job) => job.status === "queued");
+    if (next) runJob(next);
+  }, [jobs, runJob]);
+
+  useEffect(
+    () => () => {
+      runningRef.current?.controller.abort(CANCELLED);
+      ffmpegRef.current?.terminate();
+    },
+    []
+  );
+
+  const enqueue = (
+    entries: { file: File; name: string; still?: StillClip }[],
+    settings: Settings
+  ) =>
+    setJobs((prev) => [
+      ...prev,
+      ...entries.map(({ file, name, still }) => ({
+        id: nextJobId++,
+        file,
+        name,
+        settings,
+        still,
+        status: "queued" as const,
+        progress: 0,
+      })),
+    ]);
+
+  const cancel = (id: number) => {
+    if (runningRef.current?.id === id) {
+      runningRef.current.controller.abort(CANCELLED);
+    } else {
+      updateJob(id, { status: "cancelled" });
+    }
+  };
+
+  const retry = (id: number) =>
+    updateJob(id, {
+      status: "queued",
+      progress: 0,
+      eta: undefined,
+      error: undefined,
+    });
+
+  const clearFinished = () => setJobs((prev) => prev.filter(isActiveJob));
+
+  return { jobs, enqueue, cancel, retry, clearFinished };
+};
+
+export type PreprocessQueue = ReturnType<typeof usePreprocessQueue>;
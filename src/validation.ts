@@ -0,0 +1,129 @@
+import { compileTimeline, segmentFrames } from "./lib";
+import { IssueFix, Segment, TimelineIssue, Vid } from "./types";
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+// Fits a segment's range inside a vid of `length` chunks, keeping at least
+// one frame
+const clampRange = (segment: Segment, length: number): Segment => {
+  const from = clamp(segment.from, 0, length - 1);
+  return { ...segment, from, to: clamp(segment.to, from + 1, length) };
+};
+
+const remove: IssueFix = { label: "Delete", segment: null };
+
+// Checks every segment against the loaded vids and samples. Orphaned
+// segments, ranges outside their vid, empty ranges and zero repeats are
+// errors since they don't play what they say, and so are forced keyframes
+// that failed to re-encode and a timeline opening on a delta chunk since the
+// decoder can't start there. Segments opening on a key
+// chunk, which resets the mosh, and audio on a sample that isn't loaded are
+// warnings
+export const validateTimeline = (
+  segments: Segment[],
+  vids: Vid[],
+  samples: { name: string; url: string }[]
+) => {
+  const issues: TimelineIssue[] = [];
+  const [opening] = compileTimeline(segments, vids).frames;
+  segments.forEach((segment, i) => {
+    const error = (message: string, fixes: IssueFix[]) =>
+      issues.push({ segment: i, severity: "error", message, fixes: [...fixes, remove] });
+    const warning = (message: string, fixes: IssueFix[]) =>
+      issues.push({ segment: i, severity: "warning", message, fixes });
+
+    const vid = vids.find((vid) => vid.name === segment.name);
+    const hold = segment.hold !== undefined;
+    if (!vid && !hold) {
+      error(
+        `"${segment.name}" isn't loaded`,
+        vids.map((vid) => ({
+          label: `Use ${vid.name}`,
+          segment: clampRange({ ...segment, name: vid.name }, vid.chunks.length),
+        }))
+      );
+    } else if (vid && !hold) {
+      const length = vid.chunks.length;
+      if (segment.to <= segment.from) {
+        error(`Range ${segment.from}→${segment.to} is empty`, [
+          { label: "Clamp", segment: clampRange(segment, length) },
+        ]);
+      } else if (segment.from < 0 || segment.to > length) {
+        error(`Range ${segment.from}→${segment.to} is outside ${vid.name} (0→${length})`, [
+          { label: "Clamp", segment: clampRange(segment, length) },
+        ]);
+      }
+    }
+    if (hold && segment.hold! < 1) {
+      error("Hold is empty", [{ label: "Hold 1 frame", segment: { ...segment, hold: 1 } }]);
+    }
+    if (segment.repeat < 1) {
+      error("Never plays, repeat is 0", [
+        { label: "Play once", segment: { ...segment, repeat: 1 } },
+      ]);
+    }
+
+    if (vid && !hold && segment.keyframes === "force") {
+      const [first] = segmentFrames(segment, vid);
+      const reason = first !== undefined && vid.keyframeErrors?.[first];
+      if (reason) {
+        error(`Couldn't force a keyframe at frame ${first}: ${reason}`, [
+          { label: "Keep keyframes", segment: { ...segment, keyframes: "keep" } },
+          { label: "Drop keyframes", segment: { ...segment, keyframes: "drop" } },
+        ]);
+      }
+    }
+
+    // Forced keyframes are re-encoded as keys before compiling, or reported
+    // above when that failed
+    if (
+      vid &&
+      opening?.segment === i &&
+      opening.source?.chunk.type === "delta" &&
+      segment.keyframes !== "force"
+    ) {
+      const forward = { ...segment, playback: undefined };
+      const opensOnKey = vid.chunks[segmentFrames(forward, vid)[0]]?.type === "key";
+      error(
+        `Timeline opens on a delta chunk at frame ${opening.source.index}, the decoder needs a key chunk first`,
+        [
+          { label: "Force keyframe", segment: { ...segment, keyframes: "force" } },
+          ...(segment.playback && opensOnKey
+            ? [{ label: "Play forward", segment: forward }]
+            : []),
+        ]
+      );
+    }
+
+    // Later segments opening on a key chunk reset the mosh, unless their
+    // keyframe policy says that's on purpose. The first one needs the key
+    if (vid && !hold && i > 0 && segment.keyframes === undefined) {
+      const [first] = segmentFrames(segment, vid);
+      if (first !== undefined && vid.chunks[first].type === "key") {
+        warning(`Opens on a key chunk at frame ${first}, resetting the mosh`, [
+          { label: "Drop keyframes", segment: { ...segment, keyframes: "drop" } },
+          { label: "Keep it", segment: { ...segment, keyframes: "keep" } },
+        ]);
+      }
+    }
+
+    const { audio } = segment;
+    if (
+      audio?.type === "sample" &&
+      !samples.some((sample) => sample.url === audio.sampleUrl)
+    ) {
+      warning(
+        audio.sampleUrl ? "Audio sample isn't loaded" : "No audio sample picked",
+        [
+          ...samples.slice(0, 3).map((sample) => ({
+            label: `Use ${sample.name}`,
+            segment: { ...segment, audio: { ...audio, sampleUrl: sample.url } },
+          })),
+          { label: "Remove audio", segment: { ...segment, audio: undefined } },
+        ]
+      );
+    }
+  });
+  return issues;
+};
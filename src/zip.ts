@@ -0,0 +1,142 @@
+// Just enough of the zip format for project bundles. Entries are written
+// uncompressed since the media inside is already compressed; deflated entries
+// are still readable so bundles re-zipped by other tools load fine
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+const DOS_DATE_1980 = 0x21;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const createZip = async (entries: { name: string; data: Blob }[]) => {
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { name, data } of entries) {
+    const nameBytes = new TextEncoder().encode(name);
+    const crc = crc32(new Uint8Array(await data.arrayBuffer()));
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_NAMES, true);
+    local.setUint16(8, STORED, true);
+    local.setUint16(12, DOS_DATE_1980, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.size, true);
+    local.setUint32(22, data.size, true);
+    local.setUint16(26, nameBytes.length, true);
+    parts.push(local.buffer, nameBytes, data);
+
+    const header = new Uint8Array(46 + nameBytes.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, CENTRAL_HEADER, true);
+    view.setUint16(4, 20, true);
+    view.setUint16(6, 20, true);
+    view.setUint16(8, UTF8_NAMES, true);
+    view.setUint16(10, STORED, true);
+    view.setUint16(14, DOS_DATE_1980, true);
+    view.setUint32(16, crc, true);
+    view.setUint32(20, data.size, true);
+    view.setUint32(24, data.size, true);
+    view.setUint16(28, nameBytes.length, true);
+    view.setUint32(42, offset, true);
+    header.set(nameBytes, 46);
+    central.push(header);
+
+    offset += 30 + nameBytes.length + data.size;
+  }
+
+  const centralSize = central.reduce((total, header) => total + header.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], {
+    type: "application/zip",
+  });
+};
+
+const readView = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+export const readZip = async (zip: Blob) => {
+  // The end record sits before a trailing comment of up to 64KB
+  const tailStart = Math.max(0, zip.size - 22 - 0xffff);
+  const tail = await readView(zip, tailStart, zip.size);
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error("Not a zip file");
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+  const central = await readView(zip, centralOffset, centralOffset + centralSize);
+
+  const files = new Map<string, Blob>();
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(pos, true) !== CENTRAL_HEADER) {
+      throw new Error("Corrupt zip central directory");
+    }
+    const method = central.getUint16(pos + 10, true);
+    const compressedSize = central.getUint32(pos + 20, true);
+    const nameLength = central.getUint16(pos + 28, true);
+    const extraLength = central.getUint16(pos + 30, true);
+    const commentLength = central.getUint16(pos + 32, true);
+    const localOffset = central.getUint32(pos + 42, true);
+    const name = new TextDecoder().decode(
+      new Uint8Array(
+        central.buffer,
+        central.byteOffset + pos + 46,
+        nameLength
+      )
+    );
+    pos += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) continue;
+
+    // Local extra fields can differ from the central ones
+    const local = await readView(zip, localOffset, localOffset + 30);
+    const dataStart =
+      localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    const data = zip.slice(dataStart, dataStart + compressedSize);
+
+    if (method === STORED) {
+      files.set(name, data);
+    } else if (method === DEFLATED) {
+      files.set(
+        name,
+        await new Response(
+          data.stream().pipeThrough(new DecompressionStream("deflate-raw"))
+        ).blob()
+      );
+    } else {
+      throw new Error(`Unsupported compression method ${method} for ${name}`);
+    }
+  }
+  return files;
+};